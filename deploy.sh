@@ -24,6 +24,7 @@ fi
 echo "📦 Creating deployment package..."
 tar -czf deploy.tar.gz \
     dist/ \
+    templates/ \
     package.json \
     package-lock.json \
     .env.example \
@@ -97,7 +98,30 @@ EOF
     # Show status
     sleep 2
     systemctl status valor-backend --no-pager
-    
+
+    # Wait for the server to report ready (503 means a critical dependency is down)
+    echo "🩺 Waiting for readiness..."
+    PORT=$(grep -E '^PORT=' .env | cut -d= -f2)
+    READY_URL="http://localhost:${PORT:-3001}/health/ready"
+    for attempt in $(seq 1 30); do
+        if curl -fsS "$READY_URL" > /tmp/valor-ready.json 2>/dev/null; then
+            break
+        fi
+        if [ "$attempt" -eq 30 ]; then
+            echo "❌ Server did not become ready:"
+            curl -sS "$READY_URL" || true
+            echo ""
+            exit 1
+        fi
+        sleep 2
+    done
+    if grep -q '"status":"degraded"' /tmp/valor-ready.json; then
+        echo "⚠️  Server is ready but degraded:"
+        cat /tmp/valor-ready.json
+        echo ""
+    fi
+    rm -f /tmp/valor-ready.json
+
     echo "✅ Deployment complete!"
     echo "📝 Don't forget to:"
     echo "   1. Edit /opt/valor-backend/.env with your configuration"
@@ -0,0 +1,561 @@
+import path from 'path'
+import { z } from 'zod'
+
+export type AppEnvironment = 'development' | 'production' | 'test'
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+export type EmailTransportKind = 'resend' | 'smtp' | 'file' | 'console' | 'none'
+export type SmsTransportKind = 'twilio' | 'file' | 'console' | 'none'
+export type PropertyProviderName = 'assessor-files' | 'massgis-parcels' | 'mass-property-info'
+export type CaptchaProviderName = 'turnstile' | 'recaptcha' | 'hcaptcha'
+
+export const WEBHOOK_EVENT_TYPES = ['quote.created', 'quote.status_changed', 'property.lookup_completed'] as const
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number]
+// raw sends the signed event as is; the others reshape it for a CRM (see services/crmAdapters.ts)
+export type WebhookFormat = 'raw' | 'hubspot' | 'jobber'
+
+export const RATE_LIMIT_RULE_NAMES = ['quote-per-ip', 'quote-per-email', 'property-lookup-per-ip', 'property-options-per-ip', 'appointments-per-ip', 'proposal-per-ip'] as const
+export type RateLimitRuleName = typeof RATE_LIMIT_RULE_NAMES[number]
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  pass?: string
+}
+
+export interface EmailConfig {
+  // "none" runs without email: quotes are saved and marked as skipped
+  transport: EmailTransportKind
+  from: string
+  adminRecipients: string[]
+  resendApiKey?: string
+  smtp?: SmtpConfig
+  fileDir: string
+  templatesDir: string
+  // Off in development so template edits show up without a restart
+  cacheTemplates: boolean
+  maxAttempts: number
+  backoffMs: number
+}
+
+export interface TwilioConfig {
+  accountSid: string
+  authToken: string
+  // One of these identifies the sender
+  fromNumber?: string
+  messagingServiceSid?: string
+}
+
+export interface SmsConfig {
+  // "none" turns texting off; consent is still recorded from the quote form
+  transport: SmsTransportKind
+  twilio?: TwilioConfig
+  fileDir: string
+  // Texted about high-priority leads (ASAP installs, no heat)
+  onCallNumbers: string[]
+  // Public URL the provider posts inbound texts to, exactly as it calls it; signatures cover it
+  inboundUrl?: string
+  // Key for inbound signatures; TWILIO_AUTH_TOKEN unless SMS_WEBHOOK_AUTH_TOKEN is set
+  inboundAuthToken?: string
+}
+
+export interface PropertyConfig {
+  providers: PropertyProviderName[]
+  lookupUrl: string
+  navigationTimeoutMs: number
+  formTimeoutMs: number
+  resultTimeoutMs: number
+  assessorDataDir: string
+  massGisUrl?: string
+  massGisTimeoutMs: number
+  cacheTtlHours: number
+  optionsCacheTtlHours: number
+  cacheMaxEntries: number
+  jobTtlMinutes: number
+  quoteLookupWaitMs: number
+}
+
+export interface BrowserPoolConfig {
+  maxPages: number
+  maxQueue: number
+  queueTimeoutMs: number
+  maxPageUses: number
+}
+
+export interface CaptchaConfig {
+  provider: CaptchaProviderName
+  secret: string
+  minScore: number
+}
+
+export interface AbuseConfig {
+  rateLimitsDisabled: boolean
+  rateLimitOverrides: Partial<Record<RateLimitRuleName, { max: number; windowMinutes: number }>>
+  honeypotField: string
+  minSubmitSeconds: number
+  captcha?: CaptchaConfig
+}
+
+export interface WebhookEndpointConfig {
+  name: string
+  url: string
+  // HMAC-SHA256 key for the X-Webhook-Signature header
+  secret: string
+  format: WebhookFormat
+  events: WebhookEventType[]
+}
+
+export interface WebhookConfig {
+  endpoints: WebhookEndpointConfig[]
+  maxAttempts: number
+  backoffMs: number
+  timeoutMs: number
+}
+
+export interface ProposalConfig {
+  // Days a proposal's pricing holds from the quote date
+  validDays: number
+  // Limit for rendering one PDF in Chromium
+  timeoutMs: number
+  // Attach the PDF to the customer quote email
+  attachToEmail: boolean
+}
+
+export interface AppConfig {
+  env: AppEnvironment
+  port: number
+  // Express "trust proxy": true, a hop count, or a list of addresses
+  trustProxy?: boolean | number | string
+  corsOrigins: string[]
+  dataDir: string
+  pricingConfigPath?: string
+  // Technician hours and service areas; the bundled calendar is used when unset
+  appointmentCalendarPath?: string
+  // Public site, used for links in customer emails
+  frontendUrl?: string
+  adminApiKey?: string
+  metricsToken?: string
+  logging: { level: LogLevel; format: 'json' | 'pretty' }
+  email: EmailConfig
+  sms: SmsConfig
+  property: PropertyConfig
+  browserPool: BrowserPoolConfig
+  abuse: AbuseConfig
+  webhooks: WebhookConfig
+  proposal: ProposalConfig
+  health: { outboxStuckMinutes: number; lookupStaleHours: number }
+  // Settings that work but are probably a mistake, e.g. no admin key in production
+  warnings: string[]
+}
+
+const DEFAULT_LOOKUP_URL = 'https://arcgisserver.digital.mass.gov/ParcelAccessibility2/MassPropertyInfo.aspx'
+const DEFAULT_PROVIDERS: PropertyProviderName[] = ['assessor-files', 'massgis-parcels', 'mass-property-info']
+
+// Defaults that differ by NODE_ENV; everything else defaults the same everywhere
+const ENVIRONMENT_DEFAULTS: Record<AppEnvironment, {
+  emailTransport?: EmailTransportKind
+  smsTransport: SmsTransportKind
+  logLevel: LogLevel
+  logFormat: 'json' | 'pretty'
+  corsOrigins: string[]
+  cacheTemplates: boolean
+}> = {
+  development: {
+    emailTransport: 'console',
+    smsTransport: 'console',
+    logLevel: 'debug',
+    logFormat: 'pretty',
+    corsOrigins: ['http://localhost:3000'],
+    cacheTemplates: false,
+  },
+  test: {
+    emailTransport: 'none',
+    smsTransport: 'none',
+    logLevel: 'warn',
+    logFormat: 'json',
+    corsOrigins: ['http://localhost:3000'],
+    cacheTemplates: true,
+  },
+  // No email default: production must say how mail goes out
+  production: {
+    smsTransport: 'none',
+    logLevel: 'info',
+    logFormat: 'json',
+    corsOrigins: ['https://www.valorhvacma.com', 'https://valorhvacma.com'],
+    cacheTemplates: true,
+  },
+}
+
+// Unset and blank variables are treated the same
+const blankToUndefined = (value: unknown) => typeof value === 'string' && value.trim() === '' ? undefined : value
+const optional = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(blankToUndefined, schema.optional())
+
+const text = () => optional(z.string().trim())
+const positiveInt = () => optional(z.coerce.number().int().positive())
+const positiveNumber = () => optional(z.coerce.number().positive())
+const nonNegativeNumber = () => optional(z.coerce.number().min(0))
+const flag = () => optional(z.enum(['true', 'false']).transform(value => value === 'true'))
+const httpUrl = () => optional(z.string().trim().url().refine(value => /^https?:\/\//.test(value), 'Expected an http(s) URL'))
+const list = () => optional(z.string()).transform(value => value?.split(',').map(item => item.trim()).filter(Boolean))
+const emailList = () => list().pipe(z.array(z.string().email('Expected a comma-separated list of email addresses')).optional())
+const phoneList = () => list().pipe(z.array(z.string().regex(/^\+[1-9]\d{7,14}$/, 'Expected comma-separated E.164 phone numbers, e.g. +15085551234')).optional())
+const rateLimitRule = () => optional(z.string().trim().regex(/^\d+\/\d+(\.\d+)?$/, 'Expected "max/windowMinutes", e.g. "10/60"'))
+
+const envSchema = z.object({
+  NODE_ENV: optional(z.enum(['development', 'production', 'test'])),
+  PORT: optional(z.coerce.number().int().min(1).max(65535)),
+  TRUST_PROXY: text(),
+  FRONTEND_URL: httpUrl(),
+  CORS_ORIGINS: list(),
+  DATA_DIR: text(),
+  PRICING_CONFIG_PATH: text(),
+  APPOINTMENT_CALENDAR_PATH: text(),
+  ADMIN_API_KEY: text(),
+  METRICS_TOKEN: text(),
+  LOG_LEVEL: optional(z.enum(['debug', 'info', 'warn', 'error'])),
+  LOG_FORMAT: optional(z.enum(['json', 'pretty'])),
+
+  EMAIL_TRANSPORT: optional(z.enum(['resend', 'smtp', 'file', 'console', 'none'])),
+  EMAIL_FROM: optional(z.string().trim().email()),
+  RESEND_FROM_EMAIL: optional(z.string().trim().email()),
+  QUOTE_RECIPIENT_EMAIL: emailList(),
+  RESEND_API_KEY: text(),
+  SMTP_HOST: text(),
+  SMTP_PORT: optional(z.coerce.number().int().min(1).max(65535)),
+  SMTP_SECURE: flag(),
+  SMTP_USER: text(),
+  SMTP_PASS: text(),
+  EMAIL_FILE_DIR: text(),
+  EMAIL_TEMPLATES_DIR: text(),
+  EMAIL_MAX_ATTEMPTS: positiveInt(),
+  EMAIL_BACKOFF_MS: positiveInt(),
+
+  SMS_TRANSPORT: optional(z.enum(['twilio', 'file', 'console', 'none'])),
+  TWILIO_ACCOUNT_SID: text(),
+  TWILIO_AUTH_TOKEN: text(),
+  TWILIO_FROM_NUMBER: optional(z.string().trim().regex(/^\+[1-9]\d{7,14}$/, 'Expected an E.164 phone number, e.g. +15085551234')),
+  TWILIO_MESSAGING_SERVICE_SID: text(),
+  SMS_FILE_DIR: text(),
+  SMS_ONCALL_NUMBERS: phoneList(),
+  SMS_INBOUND_URL: httpUrl(),
+  SMS_WEBHOOK_AUTH_TOKEN: text(),
+
+  PROPERTY_PROVIDERS: list().pipe(z.array(z.enum(['assessor-files', 'massgis-parcels', 'mass-property-info'])).min(1).optional()),
+  PROPERTY_LOOKUP_URL: httpUrl(),
+  PROPERTY_NAVIGATION_TIMEOUT_MS: positiveInt(),
+  PROPERTY_FORM_TIMEOUT_MS: positiveInt(),
+  PROPERTY_RESULT_TIMEOUT_MS: positiveInt(),
+  PROPERTY_ASSESSOR_DATA_DIR: text(),
+  MASSGIS_PARCELS_URL: httpUrl(),
+  MASSGIS_TIMEOUT_MS: positiveInt(),
+  PROPERTY_CACHE_TTL_HOURS: positiveNumber(),
+  PROPERTY_OPTIONS_CACHE_TTL_HOURS: positiveNumber(),
+  PROPERTY_CACHE_MAX_ENTRIES: positiveInt(),
+  PROPERTY_JOB_TTL_MINUTES: positiveNumber(),
+  QUOTE_PROPERTY_LOOKUP_WAIT_MS: optional(z.coerce.number().int().min(0)),
+
+  BROWSER_POOL_MAX_PAGES: positiveInt(),
+  BROWSER_POOL_MAX_QUEUE: optional(z.coerce.number().int().min(0)),
+  BROWSER_POOL_QUEUE_TIMEOUT_MS: positiveInt(),
+  BROWSER_POOL_MAX_PAGE_USES: positiveInt(),
+
+  RATE_LIMIT_DISABLED: flag(),
+  RATE_LIMIT_QUOTE_PER_IP: rateLimitRule(),
+  RATE_LIMIT_QUOTE_PER_EMAIL: rateLimitRule(),
+  RATE_LIMIT_PROPERTY_LOOKUP_PER_IP: rateLimitRule(),
+  RATE_LIMIT_PROPERTY_OPTIONS_PER_IP: rateLimitRule(),
+  RATE_LIMIT_APPOINTMENTS_PER_IP: rateLimitRule(),
+  RATE_LIMIT_PROPOSAL_PER_IP: rateLimitRule(),
+  HONEYPOT_FIELD: text(),
+  QUOTE_MIN_SUBMIT_SECONDS: nonNegativeNumber(),
+  CAPTCHA_PROVIDER: optional(z.enum(['turnstile', 'recaptcha', 'hcaptcha'])),
+  CAPTCHA_SECRET: text(),
+  RECAPTCHA_MIN_SCORE: optional(z.coerce.number().min(0).max(1)),
+
+  // Endpoint names; each one is configured with WEBHOOK_<NAME>_URL, _SECRET, _FORMAT and _EVENTS
+  WEBHOOK_ENDPOINTS: list(),
+  WEBHOOK_MAX_ATTEMPTS: positiveInt(),
+  WEBHOOK_BACKOFF_MS: positiveInt(),
+  WEBHOOK_TIMEOUT_MS: positiveInt(),
+
+  PROPOSAL_VALID_DAYS: positiveInt(),
+  PROPOSAL_TIMEOUT_MS: positiveInt(),
+  PROPOSAL_EMAIL_ATTACHMENT: flag(),
+
+  HEALTH_OUTBOX_STUCK_MINUTES: positiveNumber(),
+  HEALTH_LOOKUP_STALE_HOURS: positiveNumber(),
+})
+
+type EnvVars = z.infer<typeof envSchema>
+
+// Lists every problem found, so a bad deploy can be fixed in one pass
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`)
+    this.name = 'ConfigError'
+  }
+}
+
+function parseTrustProxy(value: string | undefined): AppConfig['trustProxy'] {
+  if (!value) return undefined
+  if (value === 'true') return true
+  if (value === 'false') return false
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value
+}
+
+function rateLimitOverrides(vars: EnvVars): AbuseConfig['rateLimitOverrides'] {
+  const overrides: AbuseConfig['rateLimitOverrides'] = {}
+  for (const rule of RATE_LIMIT_RULE_NAMES) {
+    const value = vars[`RATE_LIMIT_${rule.toUpperCase().replace(/-/g, '_')}` as keyof EnvVars] as string | undefined
+    if (!value) continue
+    const [max, windowMinutes] = value.split('/').map(part => parseFloat(part))
+    overrides[rule] = { max, windowMinutes }
+  }
+  return overrides
+}
+
+const webhookEndpointSchema = z.object({
+  URL: httpUrl().pipe(z.string({ required_error: 'Required' })),
+  SECRET: text().pipe(z.string({ required_error: 'Required; deliveries are always signed' }).min(16, 'Use at least 16 characters')),
+  FORMAT: optional(z.enum(['raw', 'hubspot', 'jobber'])),
+  EVENTS: list().pipe(z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).optional()),
+})
+
+// Per-endpoint settings live under WEBHOOK_<NAME>_*, so they can't be part of envSchema
+function webhookEndpoints(vars: EnvVars, env: NodeJS.ProcessEnv, problems: string[]): WebhookEndpointConfig[] {
+  const endpoints: WebhookEndpointConfig[] = []
+  for (const name of vars.WEBHOOK_ENDPOINTS || []) {
+    if (!/^[a-z0-9_-]+$/i.test(name)) {
+      problems.push(`WEBHOOK_ENDPOINTS: "${name}" may only contain letters, digits, - and _`)
+      continue
+    }
+    const prefix = `WEBHOOK_${name.toUpperCase().replace(/-/g, '_')}_`
+    const parsed = webhookEndpointSchema.safeParse({
+      URL: env[`${prefix}URL`],
+      SECRET: env[`${prefix}SECRET`],
+      FORMAT: env[`${prefix}FORMAT`],
+      EVENTS: env[`${prefix}EVENTS`],
+    })
+    if (!parsed.success) {
+      problems.push(...parsed.error.issues.map(issue => `${prefix}${issue.path.join('.')}: ${issue.message}`))
+      continue
+    }
+    endpoints.push({
+      name,
+      url: parsed.data.URL,
+      secret: parsed.data.SECRET,
+      format: parsed.data.FORMAT || 'raw',
+      events: parsed.data.EVENTS || [...WEBHOOK_EVENT_TYPES],
+    })
+  }
+  return endpoints
+}
+
+function chooseEmailTransport(vars: EnvVars, env: AppEnvironment, problems: string[]): EmailTransportKind {
+  const transport = vars.EMAIL_TRANSPORT || (vars.RESEND_API_KEY ? 'resend' : ENVIRONMENT_DEFAULTS[env].emailTransport)
+  if (!transport) {
+    problems.push('EMAIL_TRANSPORT: no email transport configured. Set RESEND_API_KEY, or EMAIL_TRANSPORT to smtp, file, console or none')
+    return 'none'
+  }
+  if (transport === 'resend' && !vars.RESEND_API_KEY) problems.push('RESEND_API_KEY: required when EMAIL_TRANSPORT is resend')
+  if (transport === 'smtp' && !vars.SMTP_HOST) problems.push('SMTP_HOST: required when EMAIL_TRANSPORT is smtp')
+  return transport
+}
+
+/**
+ * Read and validate configuration from environment variables, applying the
+ * defaults for NODE_ENV (development when unset). Throws ConfigError listing
+ * every invalid or missing setting.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const parsed = envSchema.safeParse(env)
+  if (!parsed.success) {
+    throw new ConfigError(parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`))
+  }
+
+  const vars = parsed.data
+  const appEnv: AppEnvironment = vars.NODE_ENV || 'development'
+  const defaults = ENVIRONMENT_DEFAULTS[appEnv]
+  const problems: string[] = []
+  const warnings: string[] = []
+  const dataDir = vars.DATA_DIR || path.join(process.cwd(), 'data')
+
+  const corsOrigins = [...(vars.CORS_ORIGINS || defaults.corsOrigins), ...(vars.FRONTEND_URL ? [vars.FRONTEND_URL] : [])]
+  for (const origin of corsOrigins) {
+    let valid = false
+    try {
+      valid = new URL(origin).origin === origin
+    } catch {
+      // Reported below
+    }
+    if (!valid) problems.push(`CORS_ORIGINS: "${origin}" is not an origin like https://example.com (no path or trailing slash)`)
+  }
+
+  const transport = chooseEmailTransport(vars, appEnv, problems)
+
+  if (vars.CAPTCHA_SECRET && !vars.CAPTCHA_PROVIDER) problems.push('CAPTCHA_PROVIDER: required when CAPTCHA_SECRET is set')
+  if (vars.CAPTCHA_PROVIDER && !vars.CAPTCHA_SECRET) problems.push('CAPTCHA_SECRET: required when CAPTCHA_PROVIDER is set')
+
+  const endpoints = webhookEndpoints(vars, env, problems)
+
+  const smsTransport = vars.SMS_TRANSPORT || defaults.smsTransport
+  if (smsTransport === 'twilio') {
+    if (!vars.TWILIO_ACCOUNT_SID) problems.push('TWILIO_ACCOUNT_SID: required when SMS_TRANSPORT is twilio')
+    if (!vars.TWILIO_AUTH_TOKEN) problems.push('TWILIO_AUTH_TOKEN: required when SMS_TRANSPORT is twilio')
+    if (!vars.TWILIO_FROM_NUMBER && !vars.TWILIO_MESSAGING_SERVICE_SID) {
+      problems.push('TWILIO_FROM_NUMBER: set it or TWILIO_MESSAGING_SERVICE_SID when SMS_TRANSPORT is twilio')
+    }
+  }
+
+  if (problems.length > 0) throw new ConfigError(problems)
+
+  if (appEnv === 'production') {
+    if (!vars.ADMIN_API_KEY) warnings.push('ADMIN_API_KEY is not set; the admin API is disabled')
+    if (transport === 'console' || transport === 'file' || transport === 'none') {
+      warnings.push(`EMAIL_TRANSPORT is "${transport}"; no real email will be sent`)
+    }
+    if (smsTransport === 'console' || smsTransport === 'file') {
+      warnings.push(`SMS_TRANSPORT is "${smsTransport}"; no real texts will be sent`)
+    }
+  }
+
+  return {
+    env: appEnv,
+    port: vars.PORT || 3001,
+    trustProxy: parseTrustProxy(vars.TRUST_PROXY),
+    corsOrigins: Array.from(new Set(corsOrigins)),
+    dataDir,
+    pricingConfigPath: vars.PRICING_CONFIG_PATH,
+    appointmentCalendarPath: vars.APPOINTMENT_CALENDAR_PATH,
+    frontendUrl: vars.FRONTEND_URL,
+    adminApiKey: vars.ADMIN_API_KEY,
+    metricsToken: vars.METRICS_TOKEN,
+    logging: { level: vars.LOG_LEVEL || defaults.logLevel, format: vars.LOG_FORMAT || defaults.logFormat },
+    email: {
+      transport,
+      from: vars.EMAIL_FROM || vars.RESEND_FROM_EMAIL || 'onboarding@resend.dev',
+      adminRecipients: vars.QUOTE_RECIPIENT_EMAIL?.length ? vars.QUOTE_RECIPIENT_EMAIL : ['admin@valorhvacma.com'],
+      resendApiKey: vars.RESEND_API_KEY,
+      smtp: vars.SMTP_HOST
+        ? {
+          host: vars.SMTP_HOST,
+          port: vars.SMTP_PORT || 587,
+          secure: vars.SMTP_SECURE || false,
+          user: vars.SMTP_USER,
+          pass: vars.SMTP_PASS,
+        }
+        : undefined,
+      fileDir: vars.EMAIL_FILE_DIR || path.join(dataDir, 'mail'),
+      templatesDir: vars.EMAIL_TEMPLATES_DIR || path.join(__dirname, '..', '..', 'templates', 'emails'),
+      cacheTemplates: defaults.cacheTemplates,
+      maxAttempts: vars.EMAIL_MAX_ATTEMPTS || 6,
+      backoffMs: vars.EMAIL_BACKOFF_MS || 30000,
+    },
+    sms: {
+      transport: smsTransport,
+      twilio: vars.TWILIO_ACCOUNT_SID && vars.TWILIO_AUTH_TOKEN
+        ? {
+          accountSid: vars.TWILIO_ACCOUNT_SID,
+          authToken: vars.TWILIO_AUTH_TOKEN,
+          fromNumber: vars.TWILIO_FROM_NUMBER,
+          messagingServiceSid: vars.TWILIO_MESSAGING_SERVICE_SID,
+        }
+        : undefined,
+      fileDir: vars.SMS_FILE_DIR || path.join(dataDir, 'sms'),
+      onCallNumbers: vars.SMS_ONCALL_NUMBERS || [],
+      inboundUrl: vars.SMS_INBOUND_URL,
+      inboundAuthToken: vars.SMS_WEBHOOK_AUTH_TOKEN || vars.TWILIO_AUTH_TOKEN,
+    },
+    property: {
+      providers: vars.PROPERTY_PROVIDERS || DEFAULT_PROVIDERS,
+      lookupUrl: vars.PROPERTY_LOOKUP_URL || DEFAULT_LOOKUP_URL,
+      navigationTimeoutMs: vars.PROPERTY_NAVIGATION_TIMEOUT_MS || 30000,
+      formTimeoutMs: vars.PROPERTY_FORM_TIMEOUT_MS || 10000,
+      resultTimeoutMs: vars.PROPERTY_RESULT_TIMEOUT_MS || 15000,
+      assessorDataDir: vars.PROPERTY_ASSESSOR_DATA_DIR || path.join(dataDir, 'assessor'),
+      massGisUrl: vars.MASSGIS_PARCELS_URL,
+      massGisTimeoutMs: vars.MASSGIS_TIMEOUT_MS || 10000,
+      cacheTtlHours: vars.PROPERTY_CACHE_TTL_HOURS || 24 * 7,
+      // Town, street and house-number lists rarely change, so they are kept much longer
+      optionsCacheTtlHours: vars.PROPERTY_OPTIONS_CACHE_TTL_HOURS || 24 * 30,
+      cacheMaxEntries: vars.PROPERTY_CACHE_MAX_ENTRIES || 1000,
+      jobTtlMinutes: vars.PROPERTY_JOB_TTL_MINUTES || 15,
+      quoteLookupWaitMs: vars.QUOTE_PROPERTY_LOOKUP_WAIT_MS ?? 5000,
+    },
+    browserPool: {
+      maxPages: vars.BROWSER_POOL_MAX_PAGES || 2,
+      maxQueue: vars.BROWSER_POOL_MAX_QUEUE ?? 10,
+      queueTimeoutMs: vars.BROWSER_POOL_QUEUE_TIMEOUT_MS || 20000,
+      maxPageUses: vars.BROWSER_POOL_MAX_PAGE_USES || 20,
+    },
+    abuse: {
+      rateLimitsDisabled: vars.RATE_LIMIT_DISABLED || false,
+      rateLimitOverrides: rateLimitOverrides(vars),
+      honeypotField: vars.HONEYPOT_FIELD || 'website',
+      minSubmitSeconds: vars.QUOTE_MIN_SUBMIT_SECONDS ?? 3,
+      captcha: vars.CAPTCHA_PROVIDER && vars.CAPTCHA_SECRET
+        ? { provider: vars.CAPTCHA_PROVIDER, secret: vars.CAPTCHA_SECRET, minScore: vars.RECAPTCHA_MIN_SCORE ?? 0.5 }
+        : undefined,
+    },
+    webhooks: {
+      endpoints,
+      maxAttempts: vars.WEBHOOK_MAX_ATTEMPTS || 8,
+      backoffMs: vars.WEBHOOK_BACKOFF_MS || 60000,
+      timeoutMs: vars.WEBHOOK_TIMEOUT_MS || 10000,
+    },
+    proposal: {
+      validDays: vars.PROPOSAL_VALID_DAYS || 30,
+      timeoutMs: vars.PROPOSAL_TIMEOUT_MS || 20000,
+      attachToEmail: vars.PROPOSAL_EMAIL_ATTACHMENT ?? true,
+    },
+    health: {
+      outboxStuckMinutes: vars.HEALTH_OUTBOX_STUCK_MINUTES || 30,
+      lookupStaleHours: vars.HEALTH_LOOKUP_STALE_HOURS || 24,
+    },
+    warnings,
+  }
+}
+
+// Loaded on first use; server.ts loads it at startup so mistakes stop the process before it listens
+let config: AppConfig | null = null
+
+export function getConfig(): AppConfig {
+  if (!config) config = loadConfig()
+  return config
+}
+
+// Replace the active configuration, e.g. with loadConfig({ ...process.env, ...overrides })
+export function setConfig(next: AppConfig | null) {
+  config = next
+}
+
+const secret = (value: string | undefined) => value ? '[set]' : undefined
+
+// The active configuration with secrets replaced, safe to log at startup
+export function configSummary(current: AppConfig = getConfig()) {
+  const { warnings, ...settings } = current
+  return {
+    ...settings,
+    adminApiKey: secret(current.adminApiKey),
+    metricsToken: secret(current.metricsToken),
+    email: {
+      ...current.email,
+      resendApiKey: secret(current.email.resendApiKey),
+      smtp: current.email.smtp && { ...current.email.smtp, pass: secret(current.email.smtp.pass) },
+    },
+    abuse: {
+      ...current.abuse,
+      captcha: current.abuse.captcha && { ...current.abuse.captcha, secret: '[set]' },
+    },
+    sms: {
+      ...current.sms,
+      twilio: current.sms.twilio && { ...current.sms.twilio, authToken: '[set]' },
+      inboundAuthToken: secret(current.sms.inboundAuthToken),
+    },
+    webhooks: {
+      ...current.webhooks,
+      endpoints: current.webhooks.endpoints.map(endpoint => ({ ...endpoint, secret: '[set]' })),
+    },
+  }
+}
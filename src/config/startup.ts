@@ -0,0 +1,14 @@
+import dotenv from 'dotenv'
+import { ConfigError, getConfig } from './index'
+import { configureLogger } from '../services/logger'
+
+// Imported first by server.ts, so .env is loaded and checked before any other module reads configuration
+dotenv.config()
+
+try {
+  configureLogger(getConfig().logging)
+} catch (error) {
+  if (!(error instanceof ConfigError)) throw error
+  process.stderr.write(`${error.message}\nFix these settings (see .env.example) and restart.\n`)
+  process.exit(1)
+}
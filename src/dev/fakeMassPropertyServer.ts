@@ -0,0 +1,121 @@
+import fs from 'fs'
+import path from 'path'
+import express, { Express } from 'express'
+
+/**
+ * Local stand-in for the state's MassPropertyInfo.aspx form, so the Puppeteer
+ * flow can be exercised offline. It serves the three cascading dropdowns and
+ * answers submissions with the saved result pages in fixtures/mass-property.
+ *
+ *   npm run fake:property
+ *   PROPERTY_LOOKUP_URL=http://localhost:4010/MassPropertyInfo.aspx npm run dev
+ */
+
+const fixturesDir = process.env.PROPERTY_FIXTURES_DIR || path.join(__dirname, '..', '..', 'fixtures', 'mass-property')
+
+// town -> street -> house number -> fixture file
+type AddressBook = Record<string, Record<string, Record<string, string>>>
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+function loadAddressBook(): AddressBook {
+  return JSON.parse(fs.readFileSync(path.join(fixturesDir, 'addresses.json'), 'utf8'))
+}
+
+// Towns get numeric codes like the real form, so callers can't rely on value === text
+function townCodes(book: AddressBook): Array<{ value: string; text: string }> {
+  return Object.keys(book).sort().map((town, index) => ({ value: String(100 + index), text: town }))
+}
+
+function renderForm(book: AddressBook): string {
+  const towns = townCodes(book)
+    .map(town => `<option value="${town.value}">${escapeHtml(town.text)}</option>`)
+    .join('')
+
+  return `<!DOCTYPE html>
+<html>
+<head><title>Massachusetts Property Information</title></head>
+<body>
+  <form method="post" action="MassPropertyInfo.aspx" id="form1">
+    <select id="ddlCity" name="ddlCity"><option value="">-- Select City/Town --</option>${towns}</select>
+    <select id="ddlStreet" name="ddlStreet"><option value="">-- Select Street --</option></select>
+    <select id="ddlAddress" name="ddlAddress"><option value="">-- Select Address --</option></select>
+    <input type="submit" value="Get Information" />
+  </form>
+  <script>
+    function fill(select, placeholder, options) {
+      select.innerHTML = '<option value="">' + placeholder + '</option>'
+      options.forEach(function (option) {
+        var el = document.createElement('option')
+        el.value = option.value
+        el.text = option.text
+        select.appendChild(el)
+      })
+    }
+    var city = document.getElementById('ddlCity')
+    var street = document.getElementById('ddlStreet')
+    var address = document.getElementById('ddlAddress')
+    city.addEventListener('change', function () {
+      fill(street, '-- Select Street --', [])
+      fill(address, '-- Select Address --', [])
+      fetch('options/streets?town=' + encodeURIComponent(city.value))
+        .then(function (res) { return res.json() })
+        .then(function (options) { fill(street, '-- Select Street --', options) })
+    })
+    street.addEventListener('change', function () {
+      fill(address, '-- Select Address --', [])
+      fetch('options/numbers?town=' + encodeURIComponent(city.value) + '&street=' + encodeURIComponent(street.value))
+        .then(function (res) { return res.json() })
+        .then(function (options) { fill(address, '-- Select Address --', options) })
+    })
+  </script>
+</body>
+</html>`
+}
+
+export function createFakeMassPropertyApp(): Express {
+  const app = express()
+  app.use(express.urlencoded({ extended: false }))
+
+  // Simulated latency for the dropdown requests, like the real form's postbacks
+  const latencyMs = parseInt(process.env.FAKE_PROPERTY_LATENCY_MS || '200', 10)
+  const respondLater = (send: () => void) => setTimeout(send, latencyMs)
+
+  const townName = (book: AddressBook, code: unknown) =>
+    townCodes(book).find(town => town.value === code)?.text
+
+  app.get('/MassPropertyInfo.aspx', (req, res) => {
+    res.type('html').send(renderForm(loadAddressBook()))
+  })
+
+  app.get('/options/streets', (req, res) => {
+    const book = loadAddressBook()
+    const town = townName(book, req.query.town)
+    const streets = town ? Object.keys(book[town]).sort() : []
+    respondLater(() => res.json(streets.map(street => ({ value: street, text: street }))))
+  })
+
+  app.get('/options/numbers', (req, res) => {
+    const book = loadAddressBook()
+    const town = townName(book, req.query.town)
+    const numbers = town ? Object.keys(book[town][String(req.query.street)] || {}) : []
+    respondLater(() => res.json(numbers.map(number => ({ value: number, text: number }))))
+  })
+
+  app.post('/MassPropertyInfo.aspx', (req, res) => {
+    const book = loadAddressBook()
+    const town = townName(book, req.body.ddlCity)
+    const fixture = town ? book[town][req.body.ddlStreet]?.[req.body.ddlAddress] : undefined
+    res.type('html').send(fs.readFileSync(path.join(fixturesDir, fixture || 'error.html'), 'utf8'))
+  })
+
+  return app
+}
+
+if (require.main === module) {
+  const port = parseInt(process.env.FAKE_PROPERTY_PORT || '4010', 10)
+  createFakeMassPropertyApp().listen(port, () => {
+    console.log(`Fake MassPropertyInfo form at http://localhost:${port}/MassPropertyInfo.aspx`)
+  })
+}
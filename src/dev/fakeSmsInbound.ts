@@ -0,0 +1,51 @@
+import { twilioSignature } from '../services/smsTransport'
+
+/**
+ * Local stand-in for Twilio's inbound messaging webhook: posts a signed,
+ * form-encoded text to the running server and prints the TwiML reply.
+ * Pair it with SMS_TRANSPORT=file (or console) to see outbound texts.
+ *
+ *   SMS_WEBHOOK_AUTH_TOKEN=local-sms-token npm run dev
+ *   SMS_WEBHOOK_AUTH_TOKEN=local-sms-token npm run fake:sms -- +15085551234 STOP
+ *
+ * FAKE_SMS_URL overrides the target (default http://localhost:3001/api/v1/sms/inbound)
+ * and must match SMS_INBOUND_URL when that is set, since both sides sign it.
+ */
+
+export async function sendFakeInboundSms(url: string, authToken: string, from: string, body: string): Promise<{ status: number; reply: string }> {
+  const params: Record<string, string> = {
+    MessageSid: `SMfake${Date.now()}`,
+    AccountSid: 'ACfake',
+    From: from,
+    To: '+15087141327',
+    Body: body,
+    NumMedia: '0',
+  }
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Twilio-Signature': twilioSignature(authToken, url, params),
+    },
+    body: new URLSearchParams(params).toString(),
+    signal: AbortSignal.timeout(10000),
+  })
+  return { status: response.status, reply: await response.text() }
+}
+
+if (require.main === module) {
+  const [from, ...words] = process.argv.slice(2)
+  const authToken = process.env.SMS_WEBHOOK_AUTH_TOKEN || process.env.TWILIO_AUTH_TOKEN
+  if (!from || words.length === 0 || !authToken) {
+    console.error('Usage: SMS_WEBHOOK_AUTH_TOKEN=<token> npm run fake:sms -- <+1XXXXXXXXXX> <message>')
+    process.exit(1)
+  }
+
+  const url = process.env.FAKE_SMS_URL || `http://localhost:${process.env.PORT || 3001}/api/v1/sms/inbound`
+  sendFakeInboundSms(url, authToken, from, words.join(' '))
+    .then(({ status, reply }) => console.log(`${status}\n${reply}`))
+    .catch(error => {
+      console.error(`Could not reach ${url}: ${error.message}`)
+      process.exit(1)
+    })
+}
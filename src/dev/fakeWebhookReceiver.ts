@@ -0,0 +1,84 @@
+import express, { Express } from 'express'
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhookSignature } from '../services/webhookSignature'
+
+/**
+ * Local stand-in for a CRM or automation endpoint, so webhook deliveries can
+ * be exercised offline. Every endpoint name is accepted under /hooks/<name>;
+ * signatures are checked against FAKE_WEBHOOK_SECRET and received payloads
+ * can be read back from GET /hooks. FAKE_WEBHOOK_FAIL_RATE (0-1) answers a
+ * share of deliveries with 500 to exercise retries.
+ *
+ *   FAKE_WEBHOOK_SECRET=local-webhook-secret npm run fake:webhooks
+ *   WEBHOOK_ENDPOINTS=crm WEBHOOK_CRM_URL=http://localhost:4020/hooks/crm \
+ *     WEBHOOK_CRM_SECRET=local-webhook-secret npm run dev
+ */
+
+interface ReceivedWebhook {
+  endpoint: string
+  receivedAt: string
+  deliveryId?: string
+  event?: string
+  signatureValid: boolean
+  payload: unknown
+}
+
+const MAX_RECEIVED = 200
+
+export function createFakeWebhookReceiverApp(secret: string, failRate = 0): Express {
+  const app = express()
+  const received: ReceivedWebhook[] = []
+
+  // Signatures cover the exact bytes sent, so keep them alongside the parsed body
+  app.use(express.json({
+    limit: '1mb',
+    verify: (req, res, buf) => {
+      (req as any).rawBody = buf.toString('utf8')
+    },
+  }))
+
+  app.post('/hooks/:endpoint', (req, res) => {
+    const signatureValid = verifyWebhookSignature(
+      secret,
+      req.get(SIGNATURE_HEADER),
+      req.get(TIMESTAMP_HEADER),
+      (req as any).rawBody || ''
+    )
+    const entry: ReceivedWebhook = {
+      endpoint: req.params.endpoint,
+      receivedAt: new Date().toISOString(),
+      deliveryId: req.get('x-webhook-id'),
+      event: req.get('x-webhook-event'),
+      signatureValid,
+      payload: req.body,
+    }
+    received.unshift(entry)
+    received.splice(MAX_RECEIVED)
+
+    if (!signatureValid) {
+      console.log(`Rejected ${entry.event} for ${entry.endpoint}: bad signature`)
+      return res.status(401).json({ error: 'Invalid signature' })
+    }
+    if (Math.random() < failRate) {
+      console.log(`Failing ${entry.event} for ${entry.endpoint} on purpose`)
+      return res.status(500).json({ error: 'Simulated failure' })
+    }
+    console.log(`Received ${entry.event} for ${entry.endpoint} (${entry.deliveryId})`)
+    return res.json({ received: true })
+  })
+
+  app.get('/hooks', (req, res) => {
+    const endpoint = typeof req.query.endpoint === 'string' ? req.query.endpoint : undefined
+    res.json(received.filter(entry => !endpoint || entry.endpoint === endpoint))
+  })
+
+  return app
+}
+
+if (require.main === module) {
+  const port = parseInt(process.env.FAKE_WEBHOOK_PORT || '4020', 10)
+  const secret = process.env.FAKE_WEBHOOK_SECRET || 'local-webhook-secret'
+  const failRate = parseFloat(process.env.FAKE_WEBHOOK_FAIL_RATE || '0')
+  createFakeWebhookReceiverApp(secret, failRate).listen(port, () => {
+    console.log(`Fake webhook receiver at http://localhost:${port}/hooks/<endpoint>`)
+  })
+}
@@ -0,0 +1,162 @@
+// Stable, machine-readable codes; clients branch on these rather than on messages
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'INVALID_JSON'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'INVALID_SIGNATURE'
+  | 'NOT_FOUND'
+  | 'ROUTE_NOT_FOUND'
+  | 'CONFLICT'
+  | 'ADDRESS_NOT_FOUND'
+  | 'ADDRESS_AMBIGUOUS'
+  | 'OUTSIDE_SERVICE_AREA'
+  | 'SLOT_UNAVAILABLE'
+  | 'SUBMITTED_TOO_FAST'
+  | 'CAPTCHA_REQUIRED'
+  | 'CAPTCHA_FAILED'
+  | 'RATE_LIMITED'
+  | 'SERVICE_BUSY'
+  | 'SERVICE_UNAVAILABLE'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'UPSTREAM_TIMEOUT'
+  | 'INTERNAL_ERROR'
+
+/**
+ * An error with a known HTTP status and code. Anything thrown that is not an
+ * ApiError is reported to clients as a 500 INTERNAL_ERROR without its message.
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly details?: Record<string, unknown>,
+    // Sent as the Retry-After header
+    public readonly retryAfterSeconds?: number,
+    options?: ErrorOptions
+  ) {
+    super(message, options)
+    this.name = 'ApiError'
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(fields: Array<{ field: string; message: string }>, message = 'Validation failed') {
+    super(400, 'VALIDATION_FAILED', message, { fields })
+    this.name = 'ValidationError'
+  }
+}
+
+export class BadRequestError extends ApiError {
+  constructor(message: string, code: ErrorCode = 'BAD_REQUEST', details?: Record<string, unknown>) {
+    super(400, code, message, details)
+    this.name = 'BadRequestError'
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Unauthorized') {
+    super(401, 'UNAUTHORIZED', message)
+    this.name = 'UnauthorizedError'
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string, code: ErrorCode = 'FORBIDDEN') {
+    super(403, code, message)
+    this.name = 'ForbiddenError'
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, code: ErrorCode = 'NOT_FOUND', details?: Record<string, unknown>) {
+    super(404, code, message, details)
+    this.name = 'NotFoundError'
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string, code: ErrorCode = 'CONFLICT', details?: Record<string, unknown>) {
+    super(409, code, message, details)
+    this.name = 'ConflictError'
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  constructor(retryAfterSeconds: number, message = 'Too many requests. Please try again later.') {
+    super(429, 'RATE_LIMITED', message, { retryAfterSeconds }, retryAfterSeconds)
+    this.name = 'RateLimitedError'
+  }
+}
+
+// We are up but can't take this request right now: busy, shutting down, or a feature is turned off
+export class ServiceUnavailableError extends ApiError {
+  constructor(message: string, code: ErrorCode = 'SERVICE_UNAVAILABLE', retryAfterSeconds?: number) {
+    super(503, code, message, retryAfterSeconds !== undefined ? { retryAfterSeconds } : undefined, retryAfterSeconds)
+    this.name = 'ServiceUnavailableError'
+  }
+}
+
+// A service we depend on (assessor sites, MassGIS) failed or answered with something unusable
+export class UpstreamUnavailableError extends ApiError {
+  constructor(message: string, public readonly upstream: string, options?: ErrorOptions) {
+    super(502, 'UPSTREAM_UNAVAILABLE', message, { upstream }, undefined, options)
+    this.name = 'UpstreamUnavailableError'
+  }
+}
+
+export class UpstreamTimeoutError extends ApiError {
+  constructor(message: string, public readonly upstream: string, options?: ErrorOptions) {
+    super(504, 'UPSTREAM_TIMEOUT', message, { upstream }, undefined, options)
+    this.name = 'UpstreamTimeoutError'
+  }
+}
+
+// Puppeteer's TimeoutError and fetch aborted by AbortSignal.timeout() both use this name
+export const isTimeoutError = (error: unknown) => error instanceof Error && error.name === 'TimeoutError'
+
+/**
+ * Classify a failure from an upstream service: ApiErrors pass through,
+ * timeouts become 504 and anything else 502, keeping the original as cause.
+ */
+export function upstreamError(error: unknown, upstream: string, message: string): ApiError {
+  if (error instanceof ApiError) return error
+  return isTimeoutError(error)
+    ? new UpstreamTimeoutError(`${message}: timed out`, upstream, { cause: error })
+    : new UpstreamUnavailableError(message, upstream, { cause: error })
+}
+
+export interface ErrorEnvelope {
+  success: false
+  // Human-readable message, safe to show to the visitor
+  error: string
+  code: ErrorCode
+  details?: Record<string, unknown>
+  requestId?: string
+}
+
+// Anything thrown, as the ApiError that describes it to the client
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error
+
+  // body-parser failures carry a type and status
+  const type = typeof error === 'object' && error !== null && 'type' in error ? error.type : undefined
+  if (type === 'entity.parse.failed') return new BadRequestError('Request body is not valid JSON', 'INVALID_JSON')
+  if (type === 'entity.too.large') return new ApiError(413, 'PAYLOAD_TOO_LARGE', 'Request body is too large')
+
+  return new ApiError(500, 'INTERNAL_ERROR', 'Internal server error')
+}
+
+export function errorEnvelope(error: ApiError, requestId?: string): ErrorEnvelope {
+  return {
+    success: false,
+    error: error.message,
+    code: error.code,
+    ...(error.details && { details: error.details }),
+    ...(requestId && { requestId }),
+  }
+}
@@ -0,0 +1,139 @@
+import { Request, Response, NextFunction } from 'express'
+import { BlockReason, recordBlockedAttempt } from '../services/blockedAttempts'
+import { getRateLimitStore } from '../services/rateLimitStore'
+import { getCaptchaVerifier } from '../services/captcha'
+import { logger } from '../services/logger'
+import { RateLimitRuleName, getConfig } from '../config'
+import { BadRequestError, RateLimitedError } from '../errors'
+
+interface RateLimitRule {
+  max: number
+  windowMinutes: number
+}
+
+// Defaults per rule; override with e.g. RATE_LIMIT_QUOTE_PER_IP="10/60" (max per window minutes)
+const RATE_LIMIT_RULES: Record<RateLimitRuleName, RateLimitRule> = {
+  'quote-per-ip': { max: 5, windowMinutes: 60 },
+  'quote-per-email': { max: 3, windowMinutes: 24 * 60 },
+  'property-lookup-per-ip': { max: 20, windowMinutes: 10 },
+  'property-options-per-ip': { max: 120, windowMinutes: 10 },
+  'appointments-per-ip': { max: 30, windowMinutes: 60 },
+  // Each download renders a PDF in Chromium
+  'proposal-per-ip': { max: 20, windowMinutes: 60 },
+}
+
+const resolveRule = (name: RateLimitRuleName): RateLimitRule =>
+  getConfig().abuse.rateLimitOverrides[name] || RATE_LIMIT_RULES[name]
+
+function block(req: Request, reason: BlockReason, rule?: string, detail?: string) {
+  recordBlockedAttempt({
+    reason,
+    rule,
+    detail,
+    ip: req.ip,
+    email: typeof req.body?.email === 'string' ? req.body.email : undefined,
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    userAgent: req.get('user-agent'),
+  })
+}
+
+const byIp = (req: Request) => req.ip
+
+/**
+ * Count requests per key (the client IP by default) in a fixed window and
+ * answer 429 with Retry-After once the rule's limit is passed. Requests with
+ * no key, e.g. no email yet, are not counted.
+ */
+export function rateLimit(ruleName: RateLimitRuleName, keyOf: (req: Request) => string | undefined = byIp) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (getConfig().abuse.rateLimitsDisabled) return next()
+
+    const key = keyOf(req)
+    if (!key) return next()
+
+    try {
+      const rule = resolveRule(ruleName)
+      const hit = await getRateLimitStore().increment(`${ruleName}:${key.toLowerCase()}`, rule.windowMinutes * 60 * 1000)
+      // With several rules on one route, report whichever is closest to its limit
+      const remaining = Math.max(0, rule.max - hit.count)
+      const reported = res.get('RateLimit-Remaining')
+      if (reported === undefined || remaining < Number(reported)) {
+        res.set('RateLimit-Limit', String(rule.max))
+        res.set('RateLimit-Remaining', String(remaining))
+      }
+
+      if (hit.count > rule.max) {
+        const retryAfterSeconds = Math.max(1, Math.ceil((hit.resetAt - Date.now()) / 1000))
+        block(req, 'rate_limit', ruleName, `${hit.count} requests in ${rule.windowMinutes} min`)
+        return next(new RateLimitedError(retryAfterSeconds))
+      }
+    } catch (error) {
+      // A broken store must not take the public endpoints down with it
+      logger.error('Rate limit store error', { rule: ruleName, error })
+    }
+    next()
+  }
+}
+
+/**
+ * Turn away obvious bots on form posts. A hidden honeypot field (HONEYPOT_FIELD,
+ * default "website") must stay empty; bots that fill it get a fake success so
+ * they don't adapt. The form must send formStartedAt (epoch ms or ISO); posts
+ * without it, or faster than QUOTE_MIN_SUBMIT_SECONDS, are rejected.
+ * QUOTE_MIN_SUBMIT_SECONDS=0 turns the timing check off.
+ */
+export function rejectBots(req: Request, res: Response, next: NextFunction) {
+  const body = req.body || {}
+  const { honeypotField, minSubmitSeconds } = getConfig().abuse
+  const honeypot = body[honeypotField]
+  if (typeof honeypot === 'string' ? honeypot.trim() !== '' : honeypot !== undefined && honeypot !== null) {
+    block(req, 'honeypot', undefined, `${honeypotField} was filled in`)
+    return res.json({ success: true, message: 'Quote submitted' })
+  }
+
+  // Leaving formStartedAt out must not skip the check, so a missing or unreadable time counts as too fast
+  if (minSubmitSeconds > 0) {
+    const startedAt = typeof body.formStartedAt === 'number' ? body.formStartedAt
+      : typeof body.formStartedAt === 'string' ? Date.parse(body.formStartedAt) : NaN
+    if (isNaN(startedAt)) {
+      block(req, 'too_fast', undefined, body.formStartedAt === undefined ? 'formStartedAt was not sent' : 'formStartedAt could not be read')
+      return next(new BadRequestError('The form could not be verified. Please reload the page and submit again.', 'SUBMITTED_TOO_FAST'))
+    }
+
+    const elapsedSeconds = (Date.now() - startedAt) / 1000
+    if (elapsedSeconds < minSubmitSeconds) {
+      block(req, 'too_fast', undefined, `Submitted ${elapsedSeconds.toFixed(1)}s after the form opened`)
+      return next(new BadRequestError('The form was submitted too quickly. Please review your details and submit again.', 'SUBMITTED_TOO_FAST'))
+    }
+  }
+
+  next()
+}
+
+/**
+ * Check the CAPTCHA token (body captchaToken or X-Captcha-Token header) when a
+ * verifier is configured. If the CAPTCHA service itself is down the request is
+ * let through, since rate limits still apply and losing real leads is worse.
+ */
+export async function requireCaptcha(req: Request, res: Response, next: NextFunction) {
+  const verifier = getCaptchaVerifier()
+  if (!verifier) return next()
+
+  const token = typeof req.body?.captchaToken === 'string' ? req.body.captchaToken : req.get('x-captcha-token')
+  if (!token) {
+    block(req, 'captcha', verifier.name, 'Missing token')
+    return next(new BadRequestError('CAPTCHA verification is required', 'CAPTCHA_REQUIRED'))
+  }
+
+  try {
+    const result = await verifier.verify(token, req.ip)
+    if (!result.success) {
+      block(req, 'captcha', verifier.name, result.error)
+      return next(new BadRequestError('CAPTCHA verification failed', 'CAPTCHA_FAILED'))
+    }
+  } catch (error) {
+    logger.error('CAPTCHA verification error; allowing request', { verifier: verifier.name, error })
+  }
+  next()
+}
@@ -0,0 +1,29 @@
+import crypto from 'crypto'
+import { Request, Response, NextFunction } from 'express'
+import { getConfig } from '../config'
+import { ServiceUnavailableError, UnauthorizedError } from '../errors'
+
+// Compare secrets without leaking their length or contents through timing
+function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest()
+  const hashB = crypto.createHash('sha256').update(b).digest()
+  return crypto.timingSafeEqual(hashA, hashB)
+}
+
+// Require `Authorization: Bearer <ADMIN_API_KEY>` on admin routes
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminKey = getConfig().adminApiKey
+
+  if (!adminKey) {
+    return next(new ServiceUnavailableError('Admin API not configured. Please set ADMIN_API_KEY in environment variables.'))
+  }
+
+  const header = req.headers.authorization || ''
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : ''
+
+  if (!token || !safeEqual(token, adminKey)) {
+    return next(new UnauthorizedError())
+  }
+
+  next()
+}
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express'
+import { NotFoundError, errorEnvelope, toApiError } from '../errors'
+import { logger } from '../services/logger'
+
+// Unknown paths under /api get the same envelope as every other error
+export function notFoundHandler(req: Request, res: Response, next: NextFunction) {
+  next(new NotFoundError(`No route for ${req.method} ${req.originalUrl.split('?')[0]}`, 'ROUTE_NOT_FOUND'))
+}
+
+/**
+ * Last middleware: turn anything thrown or passed to next() into the error
+ * envelope with its status code. Only server-side failures are logged with
+ * details; client errors show up in the request log with their code.
+ */
+export function errorHandler(err: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) return next(err)
+
+  const apiError = toApiError(err)
+  res.locals.errorCode = apiError.code
+  if (apiError.status >= 500) {
+    logger.error('Request failed', {
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      code: apiError.code,
+      error: err,
+      ...(err instanceof Error && err.cause !== undefined && { cause: err.cause }),
+    })
+  }
+
+  if (apiError.retryAfterSeconds !== undefined) res.set('Retry-After', String(apiError.retryAfterSeconds))
+  res.status(apiError.status).json(errorEnvelope(apiError, res.locals.requestId))
+}
@@ -0,0 +1,46 @@
+import crypto from 'crypto'
+import { Request, Response, NextFunction } from 'express'
+import { logger, runWithRequestId } from '../services/logger'
+import { httpRequestDuration } from '../services/metrics'
+
+// Accept an ID from the proxy or caller when it looks safe to echo back
+const INCOMING_ID = /^[\w.:-]{8,100}$/
+
+// Route pattern rather than the raw path, so /lookups/:id is one metrics series
+function routeLabel(req: Request): string {
+  if (req.route?.path) return `${req.baseUrl}${req.route.path}`
+  return req.baseUrl || 'unmatched'
+}
+
+/**
+ * Give every request an ID (X-Request-Id, taken from the caller when present),
+ * echo it in the response, and log and time the request when it finishes.
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get('x-request-id')
+  const requestId = incoming && INCOMING_ID.test(incoming) ? incoming : crypto.randomUUID()
+  res.locals.requestId = requestId
+  res.set('X-Request-Id', requestId)
+
+  const started = process.hrtime.bigint()
+  res.on('finish', () => {
+    const seconds = Number(process.hrtime.bigint() - started) / 1e9
+    const route = routeLabel(req)
+    httpRequestDuration.observe({ method: req.method, route, status: String(res.statusCode) }, seconds)
+
+    runWithRequestId(requestId, () => {
+      const level = res.statusCode >= 500 ? 'error' : 'info'
+      logger[level]('Request completed', {
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        route,
+        status: res.statusCode,
+        // Set by the error handler
+        ...(res.locals.errorCode && { code: res.locals.errorCode }),
+        durationMs: Math.round(seconds * 1000),
+      })
+    })
+  })
+
+  runWithRequestId(requestId, next)
+}
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodTypeAny } from 'zod'
+import { toFieldErrors } from '../schemas/common'
+import { ValidationError } from '../errors'
+
+// Validate and normalize req.body against a schema, rejecting with a 400 VALIDATION_FAILED listing each field
+export function validateBody(schema: ZodTypeAny) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body ?? {})
+
+    if (!result.success) {
+      return next(new ValidationError(toFieldErrors(result.error)))
+    }
+
+    req.body = result.data
+    next()
+  }
+}
+
+// Same as validateBody, for query string parameters
+export function validateQuery(schema: ZodTypeAny) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.query)
+
+    if (!result.success) {
+      return next(new ValidationError(toFieldErrors(result.error)))
+    }
+
+    req.query = result.data
+    next()
+  }
+}
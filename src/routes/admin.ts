@@ -0,0 +1,563 @@
+import express, { NextFunction, Request, Response } from 'express'
+import { requireAdmin } from '../middleware/adminAuth'
+import {
+  QuoteFilters,
+  addQuoteNote,
+  canTransition,
+  changeQuoteStatus,
+  findQuotes,
+  getQuote,
+  searchQuotes,
+} from '../services/quoteStore'
+import { REPORT_DIMENSIONS, ReportDimension, ReportInterval, breakdownBy, countByPeriod, summarizeQuotes } from '../services/quoteReports'
+import { writeQuotesCsv } from '../services/quoteCsv'
+import { QUOTE_STATUSES, QuoteStatus } from '../types/quote'
+import { EMAIL_TEMPLATES, EmailTemplateName, renderEmail } from '../services/emailTemplates'
+import { sampleQuoteEmailContext } from '../services/emailSamples'
+import { quoteEmailContext } from '../services/quoteEmails'
+import { OutboxMessage, OutboxStatus, getOutboxMessage, listOutbox, resendEmail } from '../services/emailOutbox'
+import { invalidatePropertyCache, propertyCacheSize } from '../services/propertyLookup'
+import { getBrowserPool } from '../services/browserPool'
+import { getPropertyProviders } from '../services/propertyProvider'
+import { BlockReason, blockedAttemptTotals, listBlockedAttempts } from '../services/blockedAttempts'
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  emitQuoteEvent,
+  getWebhookDelivery,
+  listWebhookDeliveries,
+  redeliverWebhook,
+} from '../services/webhooks'
+import { listAppointments } from '../services/appointmentStore'
+import { addDays, calendarTimeZone, getTechnician, localDay, zonedTime } from '../services/appointmentCalendar'
+import { AppointmentStatus } from '../types/appointment'
+import { listSmsMessages } from '../services/sms'
+import { proposalDetails, proposalFileName, proposalHtml, renderProposalPdf } from '../services/proposal'
+import { getSmsConsent, recordSmsConsent } from '../services/smsConsent'
+import { SmsConsentStatus } from '../types/sms'
+import { getConfig } from '../config'
+import { BadRequestError, ConflictError, NotFoundError } from '../errors'
+
+const router = express.Router()
+
+const DEFAULT_PAGE_SIZE = 25
+const MAX_PAGE_SIZE = 100
+
+router.use(requireAdmin)
+
+// Read a single string query parameter, ignoring arrays and blanks
+const queryString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined
+
+function parseDate(value: string | undefined, endOfDay = false): Date | undefined | null {
+  if (!value) return undefined
+  // Plain YYYY-MM-DD dates cover the whole day in the business's time zone, the same days reports bucket by
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    if (isNaN(new Date(`${value}T00:00:00Z`).getTime())) return null
+    return endOfDay ? new Date(zonedTime(addDays(value, 1), '00:00').getTime() - 1) : zonedTime(value, '00:00')
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Parse the quote filter query parameters
+function parseQuoteFilters(query: Request['query']): { filters?: QuoteFilters; error?: string } {
+  const status = queryString(query.status)
+  if (status && !QUOTE_STATUSES.includes(status as QuoteStatus)) {
+    return { error: `Invalid status. Expected one of: ${QUOTE_STATUSES.join(', ')}` }
+  }
+
+  const from = parseDate(queryString(query.from))
+  const to = parseDate(queryString(query.to), true)
+  if (from === null || to === null) {
+    return { error: 'Invalid date range. Use ISO dates such as 2024-01-31.' }
+  }
+
+  return {
+    filters: {
+      city: queryString(query.city),
+      zipCode: queryString(query.zipCode),
+      heatingSource: queryString(query.heatingSource),
+      installationTimeline: queryString(query.installationTimeline),
+      electricityProvider: queryString(query.electricityProvider),
+      naturalGasProvider: queryString(query.naturalGasProvider),
+      status: status as QuoteStatus | undefined,
+      from,
+      to,
+      search: queryString(query.q),
+    }
+  }
+}
+
+router.get('/quotes', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { filters, error } = parseQuoteFilters(req.query)
+    if (error || !filters) {
+      return next(new BadRequestError(error || 'Invalid filters'))
+    }
+
+    const page = Math.max(1, parseInt(queryString(req.query.page) || '1', 10) || 1)
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(queryString(req.query.pageSize) || String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE)
+    )
+
+    const result = await searchQuotes(filters, page, pageSize)
+    return res.json({
+      success: true,
+      data: result.items,
+      pagination: {
+        page: result.page,
+        pageSize: result.pageSize,
+        total: result.total,
+        totalPages: Math.ceil(result.total / result.pageSize)
+      }
+    })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+// Every matching quote as CSV for spreadsheets, oldest first; takes the same filters as GET /quotes
+router.get('/quotes/export.csv', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { filters, error } = parseQuoteFilters(req.query)
+    if (error || !filters) {
+      return next(new BadRequestError(error || 'Invalid filters'))
+    }
+
+    const quotes = (await findQuotes(filters)).reverse()
+    const range = [filters.from, filters.to].map(date => date ? localDay(date) : 'all').join('-to-')
+    res.set('Content-Disposition', `attachment; filename="quotes-${range}.csv"`)
+    res.type('text/csv; charset=utf-8')
+    await writeQuotesCsv(quotes, res)
+    return res.end()
+  } catch (error) {
+    // Once rows have gone out the status can't change; cut the download short instead
+    if (res.headersSent) return res.destroy(error as Error)
+    return next(error)
+  }
+})
+
+router.get('/quotes/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const quote = await getQuote(req.params.id)
+    if (!quote) {
+      return next(new NotFoundError('Quote not found'))
+    }
+    return res.json({ success: true, data: { ...quote, proposal: proposalDetails(quote) } })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+// The customer's proposal as a PDF, or with ?format=html as the page Chromium prints (for editing the template)
+router.get('/quotes/:id/proposal.pdf', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const quote = await getQuote(req.params.id)
+    if (!quote) {
+      return next(new NotFoundError('Quote not found'))
+    }
+    if (!quote.estimate) {
+      return next(new ConflictError('Quote has no server estimate to build a proposal from'))
+    }
+
+    if (queryString(req.query.format) === 'html') {
+      return res.type('text/html').send(proposalHtml(quote))
+    }
+    const pdf = await renderProposalPdf(quote)
+    res.set('Content-Disposition', `inline; filename="${proposalFileName(quote)}"`)
+    return res.type('application/pdf').send(pdf)
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.patch('/quotes/:id/status', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, note } = req.body || {}
+    const changedBy = typeof req.body?.changedBy === 'string' ? req.body.changedBy : undefined
+
+    if (!QUOTE_STATUSES.includes(status)) {
+      return next(new BadRequestError(`Invalid status. Expected one of: ${QUOTE_STATUSES.join(', ')}`))
+    }
+
+    const existing = await getQuote(req.params.id)
+    if (!existing) {
+      return next(new NotFoundError('Quote not found'))
+    }
+
+    if (!canTransition(existing.status, status)) {
+      return next(new ConflictError(`Cannot move quote from "${existing.status}" to "${status}"`))
+    }
+
+    let quote = await changeQuoteStatus(existing.id, status, changedBy)
+    if (typeof note === 'string' && note.trim()) {
+      quote = await addQuoteNote(existing.id, note.trim(), changedBy)
+    }
+    if (quote) emitQuoteEvent('quote.status_changed', quote, quote.statusHistory[quote.statusHistory.length - 1])
+
+    return res.json({ success: true, data: quote })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post('/quotes/:id/notes', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { text, author } = req.body || {}
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return next(new BadRequestError('Note text is required'))
+    }
+
+    const quote = await addQuoteNote(req.params.id, text.trim(), typeof author === 'string' ? author : undefined)
+    if (!quote) {
+      return next(new NotFoundError('Quote not found'))
+    }
+
+    return res.status(201).json({ success: true, data: quote })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+// Render an email template against sample data, or a stored quote with ?quoteId=
+router.get('/email-templates/:name/preview', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const name = req.params.name as EmailTemplateName
+    if (!EMAIL_TEMPLATES.includes(name)) {
+      return next(new NotFoundError(`Unknown template. Expected one of: ${EMAIL_TEMPLATES.join(', ')}`))
+    }
+
+    let context = sampleQuoteEmailContext()
+    const quoteId = queryString(req.query.quoteId)
+    if (quoteId) {
+      const quote = await getQuote(quoteId)
+      if (!quote) {
+        return next(new NotFoundError('Quote not found'))
+      }
+      context = quoteEmailContext(quote, new Date(quote.createdAt).toLocaleString('en-US', { timeZone: 'America/New_York' }))
+    }
+
+    const rendered = renderEmail(name, context)
+    const format = queryString(req.query.format) || 'html'
+
+    if (format === 'text') {
+      return res.type('text/plain').send(`Subject: ${rendered.subject}\n\n${rendered.text}`)
+    }
+    if (format === 'json') {
+      return res.json({ success: true, data: rendered })
+    }
+    return res.type('text/html').send(rendered.html)
+  } catch (error) {
+    return next(error)
+  }
+})
+
+const OUTBOX_STATUSES: OutboxStatus[] = ['pending', 'sending', 'sent', 'dead']
+
+// List view leaves out the rendered bodies and attachments
+const summarizeOutboxMessage = ({ message, ...rest }: OutboxMessage) => ({
+  ...rest,
+  to: message.to,
+  subject: message.subject,
+  attachments: message.attachments?.map(attachment => attachment.filename) || []
+})
+
+// Outbox messages; ?status=dead lists the dead-letter queue
+router.get('/outbox', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = queryString(req.query.status)
+    if (status && !OUTBOX_STATUSES.includes(status as OutboxStatus)) {
+      return next(new BadRequestError(`Invalid status. Expected one of: ${OUTBOX_STATUSES.join(', ')}`))
+    }
+    const messages = await listOutbox(status as OutboxStatus | undefined)
+    return res.json({ success: true, data: messages.map(summarizeOutboxMessage) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.get('/outbox/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const message = await getOutboxMessage(req.params.id)
+    if (!message) {
+      return next(new NotFoundError('Message not found'))
+    }
+    return res.json({ success: true, data: message })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post('/outbox/:id/resend', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const existing = await getOutboxMessage(req.params.id)
+    if (!existing) {
+      return next(new NotFoundError('Message not found'))
+    }
+    if (existing.status !== 'dead') {
+      return next(new ConflictError(`Only dead messages can be re-sent (status is "${existing.status}")`))
+    }
+
+    const message = await resendEmail(existing.id)
+    return res.json({ success: true, data: message && summarizeOutboxMessage(message) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+const WEBHOOK_STATUSES: WebhookDeliveryStatus[] = ['pending', 'sending', 'delivered', 'dead']
+
+// List view leaves out the payload
+const summarizeWebhookDelivery = ({ payload, attempts, ...rest }: WebhookDelivery) => ({
+  ...rest,
+  attemptCount: attempts.length,
+  lastAttempt: attempts[attempts.length - 1],
+})
+
+// Configured endpoints, without their secrets
+router.get('/webhooks/endpoints', (req: Request, res: Response) => {
+  const endpoints = getConfig().webhooks.endpoints.map(({ secret, ...endpoint }) => endpoint)
+  return res.json({ success: true, data: endpoints })
+})
+
+// Delivery log; filter with ?status=, ?endpoint= and ?quoteId=
+router.get('/webhooks/deliveries', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = queryString(req.query.status)
+    if (status && !WEBHOOK_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return next(new BadRequestError(`Invalid status. Expected one of: ${WEBHOOK_STATUSES.join(', ')}`))
+    }
+    const deliveries = await listWebhookDeliveries({
+      status: status as WebhookDeliveryStatus | undefined,
+      endpoint: queryString(req.query.endpoint),
+      quoteId: queryString(req.query.quoteId),
+    })
+    return res.json({ success: true, data: deliveries.map(summarizeWebhookDelivery) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.get('/webhooks/deliveries/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const delivery = await getWebhookDelivery(req.params.id)
+    if (!delivery) {
+      return next(new NotFoundError('Delivery not found'))
+    }
+    return res.json({ success: true, data: delivery })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+// Send a dead or already delivered payload again, e.g. after fixing the receiving end
+router.post('/webhooks/deliveries/:id/redeliver', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const existing = await getWebhookDelivery(req.params.id)
+    if (!existing) {
+      return next(new NotFoundError('Delivery not found'))
+    }
+    if (existing.status !== 'dead' && existing.status !== 'delivered') {
+      return next(new ConflictError(`Delivery is still being attempted (status is "${existing.status}")`))
+    }
+
+    const delivery = await redeliverWebhook(existing.id)
+    return res.json({ success: true, data: delivery && summarizeWebhookDelivery(delivery) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+const APPOINTMENT_STATUSES: AppointmentStatus[] = ['booked', 'cancelled']
+
+// Site visits on one day (?date=YYYY-MM-DD, today by default) in route order, with what the technician needs
+router.get('/appointments', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const date = queryString(req.query.date) || localDay(new Date())
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return next(new BadRequestError('Invalid date. Use YYYY-MM-DD.'))
+    }
+    const status = queryString(req.query.status) || 'booked'
+    if (!APPOINTMENT_STATUSES.includes(status as AppointmentStatus)) {
+      return next(new BadRequestError(`Invalid status. Expected one of: ${APPOINTMENT_STATUSES.join(', ')}`))
+    }
+
+    const appointments = await listAppointments({
+      status: status as AppointmentStatus,
+      technicianId: queryString(req.query.technicianId),
+      from: zonedTime(date, '00:00'),
+      to: zonedTime(addDays(date, 1), '00:00'),
+    })
+
+    const data = await Promise.all(appointments.map(async ({ manageTokenHash, ...appointment }) => {
+      const quote = await getQuote(appointment.quoteId)
+      return {
+        ...appointment,
+        technician: { id: appointment.technicianId, name: getTechnician(appointment.technicianId)?.name },
+        quote: quote && {
+          id: quote.id,
+          status: quote.status,
+          name: `${quote.data.firstName} ${quote.data.lastName}`,
+          phone: quote.data.phone,
+          email: quote.data.email,
+          address: `${quote.data.address}, ${quote.data.city}, ${quote.data.state} ${quote.data.zipCode}`,
+          heatingSource: quote.data.heatingSource,
+          systemTons: quote.estimate?.systemTons,
+          notes: quote.data.additionalNotes,
+        },
+      }
+    }))
+
+    return res.json({ success: true, date, timeZone: calendarTimeZone(), data })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+// Text message log, newest first; filter with ?phone= (E.164) and ?quoteId=
+router.get('/sms/messages', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const messages = await listSmsMessages({ phone: queryString(req.query.phone), quoteId: queryString(req.query.quoteId) })
+    return res.json({ success: true, data: messages })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.get('/sms/consent/:phone', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const consent = await getSmsConsent(req.params.phone)
+    if (!consent) {
+      return next(new NotFoundError('No consent record for this number'))
+    }
+    return res.json({ success: true, data: consent })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+const SMS_CONSENT_STATUSES: SmsConsentStatus[] = ['opted_in', 'opted_out']
+
+// Record consent given or withdrawn another way, e.g. over the phone
+router.put('/sms/consent/:phone', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = req.body?.status
+    if (!SMS_CONSENT_STATUSES.includes(status)) {
+      return next(new BadRequestError(`Invalid status. Expected one of: ${SMS_CONSENT_STATUSES.join(', ')}`))
+    }
+    if (!/^\+\d{8,15}$/.test(req.params.phone)) {
+      return next(new BadRequestError('Phone must be an E.164 number such as +15085551234'))
+    }
+    const consent = await recordSmsConsent(req.params.phone, { status, source: 'admin' })
+    return res.json({ success: true, data: consent })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+// Pipeline reports; each takes the same filters as GET /quotes (from, to, city, status, ...)
+
+// Totals, average quoted price and savings, and conversion by status
+router.get('/reports/summary', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { filters, error } = parseQuoteFilters(req.query)
+    if (error || !filters) {
+      return next(new BadRequestError(error || 'Invalid filters'))
+    }
+    return res.json({ success: true, data: summarizeQuotes(await findQuotes(filters)) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+const REPORT_INTERVALS: ReportInterval[] = ['day', 'week']
+
+// Quotes submitted per ?interval=day (default) or week, in Eastern time
+router.get('/reports/volume', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const interval = queryString(req.query.interval) || 'day'
+    if (!REPORT_INTERVALS.includes(interval as ReportInterval)) {
+      return next(new BadRequestError(`Invalid interval. Expected one of: ${REPORT_INTERVALS.join(', ')}`))
+    }
+    const { filters, error } = parseQuoteFilters(req.query)
+    if (error || !filters) {
+      return next(new BadRequestError(error || 'Invalid filters'))
+    }
+
+    const quotes = await findQuotes(filters)
+    const data = countByPeriod(quotes, interval as ReportInterval, { from: filters.from, to: filters.to })
+    return res.json({ success: true, interval, total: quotes.length, data })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+// Counts, averages and conversion grouped by one field, e.g. /reports/by/city or /reports/by/heatingSource
+router.get('/reports/by/:dimension', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dimension = req.params.dimension as ReportDimension
+    if (!REPORT_DIMENSIONS.includes(dimension)) {
+      return next(new NotFoundError(`Unknown report. Expected one of: ${REPORT_DIMENSIONS.join(', ')}`))
+    }
+    const { filters, error } = parseQuoteFilters(req.query)
+    if (error || !filters) {
+      return next(new BadRequestError(error || 'Invalid filters'))
+    }
+
+    const quotes = await findQuotes(filters)
+    return res.json({ success: true, dimension, total: quotes.length, data: breakdownBy(quotes, dimension) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+// Drop cached property lookups: everything, a town, a street, or one address
+router.delete('/property-cache', (req: Request, res: Response, next: NextFunction) => {
+  const city = queryString(req.query.city)
+  const streetName = queryString(req.query.streetName)
+  const addressNumber = queryString(req.query.addressNumber)
+
+  if ((streetName || addressNumber) && !city) {
+    return next(new BadRequestError('city is required when streetName or addressNumber is given'))
+  }
+  if (addressNumber && !streetName) {
+    return next(new BadRequestError('streetName is required when addressNumber is given'))
+  }
+
+  const removed = invalidatePropertyCache({ city, streetName, addressNumber })
+  return res.json({ success: true, removed })
+})
+
+const BLOCK_REASONS: BlockReason[] = ['rate_limit', 'honeypot', 'too_fast', 'captcha']
+
+// Recent requests turned away by rate limits and bot checks; ?reason= filters, ?limit= caps (max 1000)
+router.get('/blocked-attempts', (req: Request, res: Response, next: NextFunction) => {
+  const reason = queryString(req.query.reason)
+  if (reason && !BLOCK_REASONS.includes(reason as BlockReason)) {
+    return next(new BadRequestError(`Invalid reason. Expected one of: ${BLOCK_REASONS.join(', ')}`))
+  }
+  const limit = Math.min(1000, Math.max(1, parseInt(queryString(req.query.limit) || '100', 10) || 100))
+
+  return res.json({
+    success: true,
+    data: listBlockedAttempts(reason as BlockReason | undefined, limit),
+    totals: blockedAttemptTotals()
+  })
+})
+
+// Runtime metrics for the scraper's browser pool, lookup cache and provider order
+router.get('/status', (req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    data: {
+      browserPool: getBrowserPool().stats(),
+      propertyCache: { entries: propertyCacheSize() },
+      propertyProviders: getPropertyProviders().map(provider => provider.name)
+    }
+  })
+})
+
+export default router
@@ -0,0 +1,164 @@
+import express, { NextFunction, Request, Response } from 'express'
+import { validateBody, validateQuery } from '../middleware/validate'
+import { rateLimit } from '../middleware/abuseProtection'
+import {
+  appointmentSlotsQuerySchema,
+  bookAppointmentSchema,
+  cancelAppointmentSchema,
+  manageAppointmentQuerySchema,
+  rescheduleAppointmentSchema,
+} from '../schemas/appointment'
+import { availableSlots, calendarTimeZone, getTechnician } from '../services/appointmentCalendar'
+import {
+  bookAppointment,
+  cancelAppointment,
+  getAppointment,
+  listAppointments,
+  rescheduleAppointment,
+  tokenMatches,
+} from '../services/appointmentStore'
+import { canTransition, changeQuoteStatus, getQuote } from '../services/quoteStore'
+import { appointmentInvite, sendAppointmentEmail } from '../services/quoteEmails'
+import { emitQuoteEvent } from '../services/webhooks'
+import { logger } from '../services/logger'
+import { NotFoundError } from '../errors'
+import { Appointment } from '../types/appointment'
+import { QuoteStatus, StoredQuote } from '../types/quote'
+
+const router = express.Router()
+
+// Client-facing view; the token hash never leaves the server
+function appointmentView(req: Request, { manageTokenHash, ...appointment }: Appointment) {
+  const base = `${req.baseUrl}/${appointment.id}`
+  const technician = getTechnician(appointment.technicianId)
+  return {
+    ...appointment,
+    timeZone: calendarTimeZone(),
+    technician: { id: appointment.technicianId, name: technician?.name },
+    links: { self: base, invite: `${base}/invite.ics` },
+  }
+}
+
+// Unknown IDs and wrong tokens get the same answer, so IDs can't be probed
+async function managedAppointment(id: string, token: string): Promise<{ appointment: Appointment; quote: StoredQuote }> {
+  const appointment = await getAppointment(id)
+  const quote = appointment && tokenMatches(appointment, token) ? await getQuote(appointment.quoteId) : undefined
+  if (!appointment || !quote) throw new NotFoundError('Appointment not found')
+  return { appointment, quote }
+}
+
+// Keep the sales pipeline in step with bookings made by the customer
+async function syncQuoteStatus(quote: StoredQuote, to: QuoteStatus) {
+  if (quote.status === to || !canTransition(quote.status, to)) return
+  const updated = await changeQuoteStatus(quote.id, to, 'customer')
+  if (updated) emitQuoteEvent('quote.status_changed', updated, updated.statusHistory[updated.statusHistory.length - 1])
+}
+
+// Email and pipeline updates run after the response; the booking itself is already saved
+function afterChange(appointment: Appointment, quote: StoredQuote, token: string, status?: QuoteStatus) {
+  const fields = { appointmentId: appointment.id, quoteId: quote.id }
+  sendAppointmentEmail(appointment, quote, token)
+    .catch(error => logger.error('Failed to send appointment email', { ...fields, error }))
+  if (status) {
+    syncQuoteStatus(quote, status)
+      .catch(error => logger.error('Failed to update quote status for appointment', { ...fields, error }))
+  }
+}
+
+// Open site-visit slots for the quote's town
+router.get('/slots', rateLimit('appointments-per-ip'), validateQuery(appointmentSlotsQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { quoteId, from, days } = req.query as unknown as { quoteId: string; from?: string; days?: number }
+    const quote = await getQuote(quoteId)
+    if (!quote) {
+      return next(new NotFoundError('Quote not found'))
+    }
+
+    const booked = await listAppointments({ status: 'booked' })
+    const slots = availableSlots(quote.data.city, booked, { from, days })
+    return res.json({ success: true, data: slots, timeZone: calendarTimeZone() })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+// Book a slot; the returned token is needed to view, reschedule or cancel
+router.post('/', rateLimit('appointments-per-ip'), validateBody(bookAppointmentSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { quoteId, email, start } = req.body as { quoteId: string; email: string; start: Date }
+    const quote = await getQuote(quoteId)
+    if (!quote || quote.data.email.toLowerCase() !== email) {
+      return next(new NotFoundError('Quote not found'))
+    }
+
+    const { appointment, token } = await bookAppointment(quote, start)
+    logger.info('Site visit booked', { appointmentId: appointment.id, quoteId: quote.id, start: appointment.start, technicianId: appointment.technicianId })
+    afterChange(appointment, quote, token, 'site_visit_scheduled')
+
+    res.set('Location', `${req.baseUrl}/${appointment.id}`)
+    return res.status(201).json({ success: true, data: appointmentView(req, appointment), token })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.get('/:id', validateQuery(manageAppointmentQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appointment } = await managedAppointment(req.params.id, req.query.token as string)
+    return res.json({ success: true, data: appointmentView(req, appointment) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+// The same invite the confirmation email carries, for "add to calendar" buttons
+router.get('/:id/invite.ics', validateQuery(manageAppointmentQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { appointment, quote } = await managedAppointment(req.params.id, req.query.token as string)
+    res.set('Content-Disposition', 'attachment; filename="site-visit.ics"')
+    return res.type('text/calendar; charset=utf-8').send(appointmentInvite(appointment, quote))
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.patch('/:id', rateLimit('appointments-per-ip'), validateBody(rescheduleAppointmentSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, start } = req.body as { token: string; start: Date }
+    const { quote } = await managedAppointment(req.params.id, token)
+
+    const appointment = await rescheduleAppointment(req.params.id, quote.data.city, start)
+    if (!appointment) {
+      return next(new NotFoundError('Appointment not found'))
+    }
+    logger.info('Site visit rescheduled', { appointmentId: appointment.id, quoteId: quote.id, start: appointment.start, technicianId: appointment.technicianId })
+    afterChange(appointment, quote, token)
+
+    return res.json({ success: true, data: appointmentView(req, appointment) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+router.post('/:id/cancel', rateLimit('appointments-per-ip'), validateBody(cancelAppointmentSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, reason } = req.body as { token: string; reason?: string }
+    const { appointment: current, quote } = await managedAppointment(req.params.id, token)
+    if (current.status === 'cancelled') {
+      return res.json({ success: true, data: appointmentView(req, current) })
+    }
+
+    const appointment = await cancelAppointment(current.id, 'customer', reason)
+    if (!appointment) {
+      return next(new NotFoundError('Appointment not found'))
+    }
+    logger.info('Site visit cancelled', { appointmentId: appointment.id, quoteId: quote.id })
+    afterChange(appointment, quote, token, quote.status === 'site_visit_scheduled' ? 'contacted' : undefined)
+
+    return res.json({ success: true, data: appointmentView(req, appointment) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+export default router
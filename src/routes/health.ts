@@ -0,0 +1,29 @@
+import express, { Request, Response } from 'express'
+import { checkReadiness } from '../services/healthChecks'
+import { logger } from '../services/logger'
+
+const router = express.Router()
+
+// Kept for existing monitors; same as /live
+router.get(['/', '/live'], (req: Request, res: Response) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString(), uptimeSeconds: Math.round(process.uptime()) })
+})
+
+// 200 when ok or degraded, 503 when a critical dependency is down, with every check's result
+router.get('/ready', async (req: Request, res: Response) => {
+  try {
+    const report = await checkReadiness()
+    if (report.status !== 'ok') {
+      logger.warn('Readiness check not ok', {
+        status: report.status,
+        failing: report.checks.filter(check => check.status !== 'ok').map(check => check.name),
+      })
+    }
+    return res.status(report.status === 'down' ? 503 : 200).json(report)
+  } catch (error: any) {
+    logger.error('Readiness check error', { error })
+    return res.status(503).json({ status: 'down', timestamp: new Date().toISOString(), error: error.message })
+  }
+})
+
+export default router
@@ -1,336 +1,155 @@
-import express, { Request, Response } from 'express'
-import * as cheerio from 'cheerio'
-import puppeteer from 'puppeteer'
+import express, { NextFunction, Request, Response } from 'express'
+import { PropertyLookupRequest } from '../types/property'
+import { validateBody, validateQuery } from '../middleware/validate'
+import { rateLimit } from '../middleware/abuseProtection'
+import { numbersQuerySchema, propertyLookupSchema, streetsQuerySchema } from '../schemas/property'
+import { getAddressNumbers, getStreets, getTowns, lookupProperty } from '../services/propertyLookup'
+import { LookupJob, getLookupJob, startLookupJob, subscribeToLookupJob } from '../services/propertyJobs'
+import { NotFoundError, errorEnvelope, toApiError, upstreamError } from '../errors'
 
 const router = express.Router()
 
-// Helper function to delay execution
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+// Autocomplete options are read from the state site; its outages surface as 502/504
+const optionsError = (error: unknown) => upstreamError(error, 'mass-property-info', 'Could not load address options')
 
-interface PropertyInfo {
-  owner?: string
-  ownerAddress?: string
-  buildingValue?: string
-  landValue?: string
-  otherValue?: string
-  totalValue?: string
-  assessmentYear?: string
-  lotSize?: string
-  lastSalePrice?: string
-  lastSaleDate?: string
-  useCode?: string
-  yearBuilt?: string
-}
-
-router.post('/info', async (req: Request, res: Response) => {
-  let browser: any = null
-  
+router.post('/info', rateLimit('property-lookup-per-ip'), validateBody(propertyLookupSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { city, streetName, addressNumber } = req.body
-
-    if (!city || !streetName || !addressNumber) {
-      return res.status(400).json({
-        error: 'City, street name, and address number are required'
-      })
-    }
+    const lookup: PropertyLookupRequest = req.body
+    const { data, matched, provider, cache } = await lookupProperty(lookup)
 
-    const baseUrl = 'https://arcgisserver.digital.mass.gov/ParcelAccessibility2/MassPropertyInfo.aspx'
-    
-    // Launch Puppeteer browser
-    browser = await puppeteer.launch({
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--disable-gpu',
-      ],
-    })
-    
-    const page = await browser.newPage()
-    
-    // Set a realistic viewport and user agent
-    await page.setViewport({ width: 1920, height: 1080 })
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36')
-    
-    await page.goto(baseUrl, { waitUntil: 'networkidle2', timeout: 30000 })
-    
-    // Wait for the form to load
-    await page.waitForSelector('select', { timeout: 10000 })
-    
-    // Find the dropdowns
-    const selects = await page.$$eval('select', (selects: HTMLSelectElement[]) => {
-      return selects.map((select: HTMLSelectElement, index: number) => ({
-        index,
-        id: select.id,
-        name: select.name,
-        options: Array.from(select.options).map((opt: HTMLOptionElement) => ({
-          value: opt.value,
-          text: opt.text.trim()
-        }))
-      }))
-    })
-    
-    // Identify dropdowns by their position or content
-    let citySelect: any = null
-    let streetSelect: any = null
-    let addressSelect: any = null
-    
-    // Try to find by ID/name first
-    for (const select of selects) {
-      const idLower = select.id.toLowerCase()
-      const nameLower = select.name.toLowerCase()
-      
-      if ((idLower.includes('city') || idLower.includes('town') || nameLower.includes('city') || nameLower.includes('town')) && !citySelect) {
-        citySelect = select
-      } else if ((idLower.includes('street') || nameLower.includes('street')) && !streetSelect) {
-        streetSelect = select
-      } else if ((idLower.includes('address') || idLower.includes('number') || nameLower.includes('address') || nameLower.includes('number')) && !addressSelect) {
-        addressSelect = select
-      }
-    }
-    
-    // Fallback: assume order (city, street, address)
-    if (!citySelect && selects.length >= 1) citySelect = selects[0]
-    if (!streetSelect && selects.length >= 2) streetSelect = selects[1]
-    if (!addressSelect && selects.length >= 3) addressSelect = selects[2]
-    
-    if (!citySelect || !streetSelect || !addressSelect) {
-      throw new Error(`Could not find all required dropdowns. Found ${selects.length} selects.`)
-    }
-    
-    // Normalize inputs
-    const normalizedCity = city.toUpperCase().trim()
-    const normalizedStreet = streetName.toUpperCase().trim()
-    const normalizedAddress = addressNumber.trim()
-    
-    // Select city
-    const citySelector = citySelect.id ? `#${citySelect.id}` : `select[name="${citySelect.name}"]`
-    const cityOption = citySelect.options.find((opt: any) => 
-      opt.text.toUpperCase() === normalizedCity || 
-      opt.value.toUpperCase() === normalizedCity ||
-      opt.text.toUpperCase().includes(normalizedCity) ||
-      normalizedCity.includes(opt.text.toUpperCase())
-    )
-    const cityValue = cityOption ? cityOption.value : citySelect.options.find((opt: any) => opt.value)?.value || ''
-    
-    if (cityValue) {
-      await page.select(citySelector, cityValue)
-    } else {
-      throw new Error(`Could not find city option for: ${city}`)
-    }
-    
-    // Wait for street dropdown to populate
-    const streetSelector = streetSelect.id ? `#${streetSelect.id}` : `select[name="${streetSelect.name}"]`
-    
-    try {
-      await page.waitForFunction(
-        (selector: string) => {
-          const select = document.querySelector(selector) as HTMLSelectElement
-          return select && select.options.length > 1
-        },
-        { timeout: 15000 },
-        streetSelector
-      )
-    } catch (e) {
-      await delay(3000)
-    }
-    
-    const streetSelectElement = await page.$(streetSelector)
-    if (!streetSelectElement) {
-      throw new Error(`Street select element not found: ${streetSelector}`)
-    }
-    
-    const updatedStreetOptions = await page.$eval(
-      streetSelector,
-      (select: HTMLSelectElement) => Array.from(select.options).map((opt: HTMLOptionElement) => ({
-        value: opt.value,
-        text: opt.text.trim()
-      }))
-    )
-    
-    const streetOption = updatedStreetOptions.find((opt: any) => 
-      opt.text.toUpperCase().includes(normalizedStreet) ||
-      opt.value.toUpperCase().includes(normalizedStreet) ||
-      normalizedStreet.includes(opt.text.toUpperCase())
-    )
-    const streetValue = streetOption ? streetOption.value : updatedStreetOptions.find((opt: any) => opt.value)?.value || ''
-    
-    if (streetValue) {
-      await page.select(streetSelector, streetValue)
-    } else {
-      throw new Error(`Could not find street option for: ${streetName}`)
-    }
-    
-    // Wait for address dropdown to populate
-    const addressSelector = addressSelect.id ? `#${addressSelect.id}` : `select[name="${addressSelect.name}"]`
-    
-    try {
-      await page.waitForFunction(
-        (selector: string) => {
-          const select = document.querySelector(selector) as HTMLSelectElement
-          return select && select.options.length > 1
-        },
-        { timeout: 15000 },
-        addressSelector
-      )
-    } catch (e) {
-      await delay(3000)
-    }
-    
-    const addressSelectElement = await page.$(addressSelector)
-    if (!addressSelectElement) {
-      throw new Error(`Address select element not found: ${addressSelector}`)
-    }
-    
-    const updatedAddressOptions = await page.$eval(
-      addressSelector,
-      (select: HTMLSelectElement) => Array.from(select.options).map((opt: HTMLOptionElement) => ({
-        value: opt.value,
-        text: opt.text.trim()
-      }))
-    )
-    
-    const addressOption = updatedAddressOptions.find((opt: any) => 
-      opt.text.trim() === normalizedAddress ||
-      opt.value.trim() === normalizedAddress
-    )
-    const addressValue = addressOption ? addressOption.value : updatedAddressOptions.find((opt: any) => opt.value)?.value || ''
-    
-    if (addressValue) {
-      await page.select(addressSelector, addressValue)
-    } else {
-      throw new Error(`Could not find address option for: ${addressNumber}`)
-    }
-    
-    await delay(1000)
-    
-    // Find and click the submit button
-    const submitButton = await page.$('input[type="submit"], button[type="submit"], input[value*="Get Information" i], input[value*="Submit" i]')
-    
-    if (submitButton) {
-      await submitButton.click()
-    } else {
-      await page.keyboard.press('Enter')
-    }
-    
-    // Wait for results to load
-    await delay(3000)
-    await page.waitForSelector('table, .property-info, [class*="result"], [id*="result"]', { timeout: 15000 }).catch(() => {})
-    
-    // Get the page content
-    const html = await page.content()
-    const $ = cheerio.load(html)
-
-    // Parse the property information
-    const propertyInfo: PropertyInfo = {}
-    const pageText = $('body').text()
-    
-    // Extract data from tables
-    $('table tr, table td').each((_, el) => {
-      const text = $(el).text().trim()
-      const parentText = $(el).parent().text().trim()
-
-      if (text.includes('Owner:') || parentText.includes('Owner:')) {
-        const ownerText = text.replace('Owner:', '').trim() || parentText.replace('Owner:', '').trim()
-        if (ownerText) propertyInfo.owner = ownerText
-      }
+    return res.json({ success: true, data, matched, provider, cache })
+  } catch (error) {
+    return next(error)
+  }
+})
 
-      if (text.includes('Owner Address:') || parentText.includes('Owner Address:')) {
-        const addressLines: string[] = []
-        $(el).nextAll('td, div, span').each((_, nextEl) => {
-          const nextText = $(nextEl).text().trim()
-          if (nextText && !nextText.includes('Building Value')) {
-            addressLines.push(nextText)
-          } else {
-            return false
-          }
-        })
-        if (addressLines.length > 0) {
-          propertyInfo.ownerAddress = addressLines.join(', ')
-        }
-      }
+// Client-facing view of a lookup job; the result matches what POST /info returns
+function jobView(req: Request, job: LookupJob) {
+  const base = `${req.baseUrl}/lookups/${job.id}`
+  const view: Record<string, unknown> = {
+    id: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    steps: job.steps,
+    links: { self: base, events: `${base}/events` }
+  }
+  if (job.result) {
+    const { data, matched, provider, cache } = job.result
+    view.result = { data, matched, provider, cache }
+  }
+  if (job.status === 'failed') {
+    // Same envelope POST /info would have answered with, plus the status it would have used
+    const apiError = toApiError(job.error)
+    const { success, ...envelope } = errorEnvelope(apiError)
+    view.error = { status: apiError.status, ...envelope }
+  }
+  return view
+}
 
-      if (text.includes('Building Value:') || parentText.includes('Building Value:')) {
-        const match = text.match(/\$[\d,]+/) || parentText.match(/\$[\d,]+/)
-        if (match) propertyInfo.buildingValue = match[0]
-      }
+// Start a lookup without holding the request open; poll or subscribe to the returned job
+router.post('/lookups', rateLimit('property-lookup-per-ip'), validateBody(propertyLookupSchema), (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const job = startLookupJob(req.body as PropertyLookupRequest)
+    const view = jobView(req, job)
+    res.set('Location', `${req.baseUrl}/lookups/${job.id}`)
+    return res.status(202).json({ success: true, data: view })
+  } catch (error) {
+    return next(error)
+  }
+})
 
-      if (text.includes('Land Value:') || parentText.includes('Land Value:')) {
-        const match = text.match(/\$[\d,]+/) || parentText.match(/\$[\d,]+/)
-        if (match) propertyInfo.landValue = match[0]
-      }
+router.get('/lookups/:id', (req: Request, res: Response, next: NextFunction) => {
+  const job = getLookupJob(req.params.id)
+  if (!job) {
+    return next(new NotFoundError('Lookup not found or expired'))
+  }
+  return res.json({ success: true, data: jobView(req, job) })
+})
 
-      if (text.includes('Other Value:') || parentText.includes('Other Value:')) {
-        const match = text.match(/\$[\d,]+/) || parentText.match(/\$[\d,]+/)
-        if (match) propertyInfo.otherValue = match[0]
-      }
+// Server-sent events: one "step" event per milestone, then "result" or "failed", then the stream ends
+router.get('/lookups/:id/events', (req: Request, res: Response, next: NextFunction) => {
+  const job = getLookupJob(req.params.id)
+  if (!job) {
+    return next(new NotFoundError('Lookup not found or expired'))
+  }
 
-      if (text.includes('Total Value:') || parentText.includes('Total Value:')) {
-        const match = text.match(/\$[\d,]+/) || parentText.match(/\$[\d,]+/)
-        if (match) propertyInfo.totalValue = match[0]
-      }
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop nginx from buffering the stream
+    'X-Accel-Buffering': 'no'
+  })
+  res.flushHeaders()
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
 
-      if (text.includes('Assessment data from') || text.includes('FY')) {
-        const match = text.match(/FY\s+\d{4}/) || text.match(/\d{4}/)
-        if (match) propertyInfo.assessmentYear = match[0]
-      }
+  let sentSteps = 0
+  let unsubscribe = () => {}
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000)
 
-      if (text.includes('Lot Size:') || parentText.includes('Lot Size:')) {
-        const match = text.match(/[\d.]+[\s]*Acres?/) || parentText.match(/[\d.]+[\s]*Acres?/)
-        if (match) propertyInfo.lotSize = match[0]
-      }
+  const finish = () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+    res.end()
+  }
 
-      if (text.includes('Last Sale Price:') || parentText.includes('Last Sale Price:')) {
-        const match = text.match(/\$[\d,]+/) || parentText.match(/\$[\d,]+/)
-        if (match) propertyInfo.lastSalePrice = match[0]
-      }
+  // Replays steps the client missed, so subscribing late loses nothing
+  const publish = (current: LookupJob) => {
+    for (const step of current.steps.slice(sentSteps)) send('step', step)
+    sentSteps = current.steps.length
+    if (current.status === 'running') return
 
-      if (text.includes('Last Sale Date:') || parentText.includes('Last Sale Date:')) {
-        const match = text.match(/\d{8}/) || parentText.match(/\d{8}/)
-        if (match) propertyInfo.lastSaleDate = match[0]
-      }
+    const view = jobView(req, current)
+    if (current.status === 'succeeded') send('result', view.result)
+    else send('failed', view.error)
+    finish()
+  }
 
-      if (text.includes('Use Code:') || parentText.includes('Use Code:')) {
-        const match = text.match(/Use Code:\s*(\d+)/) || parentText.match(/Use Code:\s*(\d+)/)
-        if (match) propertyInfo.useCode = match[1]
-      }
+  unsubscribe = subscribeToLookupJob(job.id, publish)
+  req.on('close', finish)
+  publish(job)
+})
 
-      if (text.includes('Year Built:') || parentText.includes('Year Built:')) {
-        const match = text.match(/Year Built:\s*(\d{4})/) || parentText.match(/Year Built:\s*(\d{4})/)
-        if (match) propertyInfo.yearBuilt = match[1]
-      }
-    })
+// Autocomplete: towns offered by the state lookup form
+router.get('/towns', rateLimit('property-options-per-ip'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { data, cache } = await getTowns()
+    return res.json({ success: true, data, cache })
+  } catch (error) {
+    return next(optionsError(error))
+  }
+})
 
-    // Fallback regex extraction
-    if (!propertyInfo.yearBuilt) {
-      const yearMatch = pageText.match(/Year Built[:\s]+(\d{4})/i)
-      if (yearMatch) propertyInfo.yearBuilt = yearMatch[1]
-    }
-    
-    if (!propertyInfo.totalValue) {
-      const totalMatch = pageText.match(/Total Value[:\s]+\$?([\d,]+)/i)
-      if (totalMatch) propertyInfo.totalValue = '$' + totalMatch[1]
-    }
-    
-    if (!propertyInfo.lotSize) {
-      const lotMatch = pageText.match(/Lot Size[:\s]+([\d.]+\s*Acres?)/i)
-      if (lotMatch) propertyInfo.lotSize = lotMatch[1]
+// Autocomplete: streets in a town
+router.get('/streets', rateLimit('property-options-per-ip'), validateQuery(streetsQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const town = req.query.town as string
+    const result = await getStreets(town)
+    if (!result) {
+      return next(new NotFoundError(`Unknown town: ${town}`, 'NOT_FOUND', { field: 'town', input: town }))
     }
-    
-    return res.json({ success: true, data: propertyInfo })
-  } catch (error: any) {
-    console.error('Property info error:', error)
-    return res.status(500).json({
-      error: error.message || 'Failed to fetch property information',
-      details: 'Error occurred while fetching property information from Massachusetts Property Information site.'
-    })
-  } finally {
-    // Always close the browser
-    if (browser) {
-      await browser.close().catch(() => {})
+    return res.json({ success: true, data: result.data, cache: result.cache })
+  } catch (error) {
+    return next(optionsError(error))
+  }
+})
+
+// Autocomplete: house numbers on a street
+router.get('/numbers', rateLimit('property-options-per-ip'), validateQuery(numbersQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const town = req.query.town as string
+    const street = req.query.street as string
+    const result = await getAddressNumbers(town, street)
+    if (!result) {
+      return next(new NotFoundError(`Unknown town or street: ${street}, ${town}`, 'NOT_FOUND', { field: 'street', input: street }))
     }
+    return res.json({ success: true, data: result.data, cache: result.cache })
+  } catch (error) {
+    return next(optionsError(error))
   }
 })
 
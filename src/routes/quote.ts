@@ -1,261 +1,135 @@
 import express from 'express'
-import { Resend } from 'resend'
+import { QuoteData, StoredQuote } from '../types/quote'
+import { createQuote, getQuote, recordEmailDelivery } from '../services/quoteStore'
+import { estimateQuote, isClientPriceConsistent } from '../services/pricing'
+import { validateBody, validateQuery } from '../middleware/validate'
+import { rateLimit, rejectBots, requireCaptcha } from '../middleware/abuseProtection'
+import { homeDetailsSchema, proposalQuerySchema, quoteSchema } from '../schemas/quote'
+import { sendQuoteEmails } from '../services/quoteEmails'
+import { attachQuotePropertyLookup, completeLateQuoteLookup, startQuotePropertyLookup } from '../services/quotePropertyLookup'
+import { emitQuoteEvent } from '../services/webhooks'
+import { sendQuoteTexts } from '../services/sms'
+import { recordSmsConsent } from '../services/smsConsent'
+import { proposalFileName, renderProposalPdf } from '../services/proposal'
+import { logger } from '../services/logger'
+import { NotFoundError } from '../errors'
 
 const router = express.Router()
 
-// Initialize Resend
-const resendApiKey = process.env.RESEND_API_KEY
-const resend = resendApiKey ? new Resend(resendApiKey) : null
+// Price a quote without submitting it
+router.post('/estimate', validateBody(homeDetailsSchema), (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  try {
+    return res.json({ success: true, data: estimateQuote(req.body) })
+  } catch (error) {
+    return next(error)
+  }
+})
+
+// Cheap checks run before validation; the per-email limit runs after it so the address is normalized
+const submitGuards = [rateLimit('quote-per-ip'), rejectBots, requireCaptcha]
+const perEmailLimit = rateLimit('quote-per-email', req => req.body.email)
 
-interface QuoteData {
-  firstName: string
-  lastName: string
-  email: string
-  phone: string
-  address: string
-  city: string
-  state: string
-  zipCode: string
-  propertyInfo?: any
-  propertyType?: string
-  yearBuilt?: string
-  squareFootage?: string
-  floorsAboveGround?: string
-  bedrooms?: string
-  bathrooms?: string
-  hasAttic?: string
-  basementType?: string
-  additionalNotes?: string
-  ownership?: string
-  heatingSource?: string
-  installationTimeline?: string
-  electricityProvider?: string
-  naturalGasProvider?: string
-  quote?: {
-    totalPrice?: number
-    estimatedSavings?: number
+async function sendTexts(quote: StoredQuote) {
+  if (quote.data.smsConsent) {
+    await recordSmsConsent(quote.data.phone, { status: 'opted_in', source: 'quote_form', quoteId: quote.id })
   }
+  await sendQuoteTexts(quote)
 }
 
-router.post('/submit', async (req: express.Request, res: express.Response) => {
+router.post('/submit', submitGuards, validateBody(quoteSchema), perEmailLimit, async (req: express.Request, res: express.Response, next: express.NextFunction) => {
   try {
+    // Body has already been validated and normalized by quoteSchema
     const quoteData: QuoteData = req.body
 
-    // Validate required fields
-    if (!quoteData.firstName || !quoteData.lastName || !quoteData.email || !quoteData.phone) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: firstName, lastName, email, phone'
-      })
+    // Price the quote on the server; browser-supplied figures are only kept for comparison
+    const clientQuote = quoteData.quote
+    const estimate = estimateQuote(quoteData)
+    const priceMismatch = !isClientPriceConsistent(clientQuote?.totalPrice, estimate)
+    if (priceMismatch) {
+      logger.warn('Client quote total differs from server estimate', { clientTotal: clientQuote?.totalPrice, serverTotal: estimate.installedCost })
+    }
+    quoteData.quote = {
+      totalPrice: estimate.installedCost,
+      estimatedSavings: estimate.annualSavings
     }
 
-    // Format the email content
-    const emailSubject = `New Quote Request - ${quoteData.firstName} ${quoteData.lastName}`
-    
-    const emailBody = `
-NEW QUOTE REQUEST
-=================
-
-CONTACT INFORMATION
--------------------
-Name: ${quoteData.firstName} ${quoteData.lastName}
-Email: ${quoteData.email}
-Phone: ${quoteData.phone}
-
-ADDRESS
--------
-${quoteData.address}
-${quoteData.city}, ${quoteData.state} ${quoteData.zipCode}
-
-PROPERTY INFORMATION
--------------------
-${quoteData.propertyInfo ? `
-Year Built: ${quoteData.propertyInfo.yearBuilt || 'N/A'}
-Total Assessed Value: ${quoteData.propertyInfo.totalValue || 'N/A'}
-Lot Size: ${quoteData.propertyInfo.lotSize || 'N/A'}
-Assessment Year: ${quoteData.propertyInfo.assessmentYear || 'N/A'}
-Last Sale Price: ${quoteData.propertyInfo.lastSalePrice || 'N/A'}
-Last Sale Date: ${quoteData.propertyInfo.lastSaleDate || 'N/A'}
-Owner: ${quoteData.propertyInfo.owner || 'N/A'}
-Owner Address: ${quoteData.propertyInfo.ownerAddress || 'N/A'}
-Building Value: ${quoteData.propertyInfo.buildingValue || 'N/A'}
-Land Value: ${quoteData.propertyInfo.landValue || 'N/A'}
-Use Code: ${quoteData.propertyInfo.useCode || 'N/A'}
-` : 'No property information available'}
-
-HOME DETAILS
------------
-Property Type: ${quoteData.propertyType || 'N/A'}
-Year Built: ${quoteData.yearBuilt || 'N/A'}
-Square Footage: ${quoteData.squareFootage || 'N/A'}
-Floors Above Ground: ${quoteData.floorsAboveGround || 'N/A'}
-Bedrooms: ${quoteData.bedrooms || 'N/A'}
-Bathrooms: ${quoteData.bathrooms || 'N/A'}
-Has Attic: ${quoteData.hasAttic || 'N/A'}
-Basement Type: ${quoteData.basementType || 'N/A'}
-Additional Notes: ${quoteData.additionalNotes || 'None'}
-
-ADDITIONAL INFORMATION
----------------------
-Ownership: ${quoteData.ownership || 'N/A'}
-Heating Source: ${quoteData.heatingSource || 'N/A'}
-Installation Timeline: ${quoteData.installationTimeline || 'N/A'}
-
-UTILITY PROVIDERS
-----------------
-Electricity Provider: ${quoteData.electricityProvider || 'N/A'}
-Natural Gas Provider: ${quoteData.naturalGasProvider || 'N/A'}
-
-QUOTE SUMMARY
-------------
-Total Price: $${quoteData.quote?.totalPrice?.toLocaleString() || 'N/A'}
-Estimated Annual Savings: $${quoteData.quote?.estimatedSavings?.toLocaleString() || 'N/A'}
-
----
-This quote was generated automatically from the Valor Heating & Cooling website.
-Submitted: ${new Date().toLocaleString()}
-`
-
-    const adminEmail = process.env.QUOTE_RECIPIENT_EMAIL || 'admin@valorhvacma.com'
-    const customerEmail = quoteData.email
-    
-    // Use onboarding@resend.dev if the from email is not verified
-    const fromEmail = process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev'
-    
-    // If using a gmail.com or other unverified domain, use Resend's test domain
-    const safeFromEmail = fromEmail.includes('@gmail.com') || fromEmail.includes('@yahoo.com') || fromEmail.includes('@outlook.com')
-      ? 'onboarding@resend.dev'
-      : fromEmail
-    
-    // Try to send emails using Resend if API key is configured
-    if (resend && resendApiKey) {
-      try {
-        // 1. Send detailed email to admin
-        const adminEmailSubject = `New Quote Request - ${quoteData.firstName} ${quoteData.lastName}`
-        const adminEmailPromise = resend.emails.send({
-          from: safeFromEmail,
-          to: adminEmail,
-          subject: adminEmailSubject,
-          text: emailBody,
-        })
-        
-        // 2. Send customer-friendly email to customer
-        const customerEmailSubject = `Your Heat Pump Quote from Valor Heating & Cooling`
-        const customerEmailBody = `
-Hello ${quoteData.firstName},
-
-Thank you for requesting a quote from Valor Heating & Cooling!
-
-YOUR PERSONALIZED QUOTE
-========================
-
-Total Installation Cost: $${quoteData.quote?.totalPrice?.toLocaleString() || 'N/A'}
-Estimated Annual Savings: $${quoteData.quote?.estimatedSavings?.toLocaleString() || 'N/A'}
-
-This quote includes available Mass Save® rebates of up to $16,000, which means you could have $0 out-of-pocket cost for your heat pump installation!
-
-NEXT STEPS
-----------
-Our team will review your quote and contact you within 24 hours to discuss:
-• Available rebates and financing options
-• Installation timeline
-• System specifications
-• Any questions you may have
+    // Verify the address against property records ourselves; the lookup runs while the lead is saved
+    const { lookup, running } = startQuotePropertyLookup(quoteData)
 
-PROPERTY DETAILS
----------------
-Address: ${quoteData.address}
-${quoteData.city}, ${quoteData.state} ${quoteData.zipCode}
+    // Persist the lead first so it survives a slow lookup or any email failure below
+    const createdQuote = await createQuote(quoteData, { estimate, clientQuote, priceMismatch, propertyLookup: lookup })
 
-Property Type: ${quoteData.propertyType || 'N/A'}
-Square Footage: ${quoteData.squareFootage || 'N/A'}
+    // Fast lookups are attached before the emails go out; slow ones finish after we respond
+    const { quote: storedQuote, late } = await attachQuotePropertyLookup(createdQuote, running)
+    const propertyLookup = storedQuote.propertyLookup || lookup
+    logger.info('Quote submitted', { quoteId: storedQuote.id, propertyLookup: propertyLookup.status, priceMismatch })
 
-${quoteData.quote?.totalPrice ? `
-ESTIMATED BREAKDOWN
--------------------
-Total System Cost: $${quoteData.quote.totalPrice.toLocaleString()}
-Mass Save® Rebates: Up to $16,000
-Your Out-of-Pocket: Potentially $0
+    // Hand the lead to CRM webhooks; a lookup that already finished is announced with it
+    emitQuoteEvent('quote.created', storedQuote)
+    if (propertyLookup.status !== 'pending' && propertyLookup.status !== 'skipped') {
+      emitQuoteEvent('property.lookup_completed', storedQuote)
+    }
 
-*Final pricing subject to on-site assessment and available rebates at time of installation.
-` : ''}
+    // Emails go through the outbox; failures are retried there and never lose the lead
+    let emailsSent = { admin: false, customer: false }
+    let message = 'Quote submitted, but confirmation emails could not be sent'
+    try {
+      const delivery = await sendQuoteEmails(storedQuote)
+      emailsSent = { admin: delivery.admin === 'sent', customer: delivery.customer === 'sent' }
+      const successCount = (emailsSent.admin ? 1 : 0) + (emailsSent.customer ? 1 : 0)
+
+      if (delivery.admin === 'skipped') {
+        message = 'Quote submitted. Email is turned off, so no emails were sent.'
+      } else if (successCount > 0) {
+        message = `Quote submitted and ${successCount} email(s) sent successfully`
+      } else {
+        message = 'Quote submitted. Confirmation emails are queued and will be retried.'
+      }
+    } catch (emailError: any) {
+      logger.error('Email sending error', { quoteId: storedQuote.id, error: emailError })
+      await recordEmailDelivery(storedQuote.id, {
+        admin: 'failed',
+        customer: 'failed',
+        attemptedAt: new Date().toISOString(),
+        lastError: emailError.message || 'Failed to send quote emails'
+      }).catch(storeError => logger.error('Failed to record email delivery', { quoteId: storedQuote.id, error: storeError }))
+    }
 
-QUESTIONS?
----------
-Call us anytime: (508) 714-1327
-Email: admin@valorhvacma.com
-Available 24/7
+    // Texts never hold up the response; consent is recorded before the confirmation goes out
+    sendTexts(storedQuote)
+      .catch(smsError => logger.error('Failed to send quote texts', { quoteId: storedQuote.id, error: smsError }))
 
-We're here to help you make the switch to energy-efficient heating and cooling!
+    if (late) {
+      completeLateQuoteLookup(storedQuote.id, late)
+        .catch(lookupError => logger.error('Failed to attach late property lookup', { quoteId: storedQuote.id, error: lookupError }))
+    }
 
-Best regards,
-The Valor Heating & Cooling Team
+    return res.json({
+      success: true,
+      quoteId: storedQuote.id,
+      message,
+      emailsSent,
+      propertyLookup: propertyLookup.status
+    })
+  } catch (error) {
+    return next(error)
+  }
+})
 
----
-#1 Rated Disabled Veteran Owned Heat Pump Installers in Massachusetts
-Licensed & Insured | 24/7 Emergency Service
-        `.trim()
-        
-        const customerEmailPromise = resend.emails.send({
-          from: safeFromEmail,
-          to: customerEmail,
-          subject: customerEmailSubject,
-          text: customerEmailBody,
-        })
-        
-        // Send both emails
-        const [adminResult, customerResult] = await Promise.allSettled([
-          adminEmailPromise,
-          customerEmailPromise
-        ])
-        
-        // Check results
-        const adminSuccess = adminResult.status === 'fulfilled' && !adminResult.value.error
-        const customerSuccess = customerResult.status === 'fulfilled' && !customerResult.value.error
-        
-        if (!adminSuccess) {
-          console.error('Admin email failed:', adminResult.status === 'rejected' ? adminResult.reason : adminResult.value.error)
-        }
-        
-        if (!customerSuccess) {
-          console.error('Customer email failed:', customerResult.status === 'rejected' ? customerResult.reason : customerResult.value.error)
-        }
-        
-        // If both failed, throw error
-        if (!adminSuccess && !customerSuccess) {
-          throw new Error('Both emails failed to send')
-        }
-        
-        const successCount = (adminSuccess ? 1 : 0) + (customerSuccess ? 1 : 0)
-        return res.json({ 
-          success: true, 
-          message: `Quote submitted and ${successCount} email(s) sent successfully`,
-          emailsSent: {
-            admin: adminSuccess,
-            customer: customerSuccess
-          }
-        })
-      } catch (resendError: any) {
-        console.error('Email sending error:', resendError)
-        return res.status(500).json({
-          success: false,
-          error: resendError.message || 'Failed to send email via Resend',
-          details: resendError
-        })
-      }
+// Branded PDF proposal for a submitted quote
+router.get('/:id/proposal.pdf', rateLimit('proposal-per-ip'), validateQuery(proposalQuerySchema), async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  try {
+    const quote = await getQuote(req.params.id)
+    if (!quote || quote.data.email.toLowerCase() !== req.query.email || !quote.estimate) {
+      return next(new NotFoundError('Quote not found'))
     }
-    
-    // Fallback: Return error if email service is not configured
-    return res.status(500).json({ 
-      success: false,
-      message: 'Email service not configured. Please set RESEND_API_KEY in environment variables.',
-    })
-  } catch (error: any) {
-    console.error('Quote submission error:', error)
-    return res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to send quote email'
-    })
+
+    const pdf = await renderProposalPdf(quote)
+    res.set('Content-Disposition', `inline; filename="${proposalFileName(quote)}"`)
+    res.set('Cache-Control', 'private, no-store')
+    return res.type('application/pdf').send(pdf)
+  } catch (error) {
+    return next(error)
   }
 })
 
@@ -0,0 +1,47 @@
+import express, { NextFunction, Request, Response } from 'express'
+import { validateBody } from '../middleware/validate'
+import { inboundSmsSchema } from '../schemas/sms'
+import { handleInboundSms } from '../services/sms'
+import { verifyTwilioSignature } from '../services/smsTransport'
+import { ForbiddenError, ServiceUnavailableError } from '../errors'
+import { getConfig } from '../config'
+
+const router = express.Router()
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// TwiML answer; an empty <Response/> sends nothing back
+const twiml = (reply?: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${reply ? `<Response><Message>${escapeXml(reply)}</Message></Response>` : '<Response/>'}`
+
+/**
+ * Reject requests not signed with the inbound auth token. Twilio signs the
+ * public URL it was configured with, which behind a proxy differs from the one
+ * we see, so SMS_INBOUND_URL takes precedence over the reconstructed URL.
+ */
+function requireTwilioSignature(req: Request, res: Response, next: NextFunction) {
+  const { inboundAuthToken, inboundUrl } = getConfig().sms
+  if (!inboundAuthToken) {
+    return next(new ServiceUnavailableError('Inbound texts are not configured'))
+  }
+
+  const url = inboundUrl || `${req.protocol}://${req.get('host')}${req.originalUrl}`
+  if (!verifyTwilioSignature(inboundAuthToken, url, req.body ?? {}, req.get('X-Twilio-Signature'))) {
+    return next(new ForbiddenError('Invalid request signature', 'INVALID_SIGNATURE'))
+  }
+  next()
+}
+
+// Incoming texts (point the number's messaging webhook here); form-encoded, as Twilio sends them
+router.post('/inbound', requireTwilioSignature, validateBody(inboundSmsSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { From, Body, MessageSid } = req.body as { From: string; Body: string; MessageSid?: string }
+    const reply = await handleInboundSms({ from: From, body: Body, providerId: MessageSid })
+    return res.type('text/xml').send(twiml(reply))
+  } catch (error) {
+    return next(error)
+  }
+})
+
+export default router
@@ -0,0 +1,38 @@
+import { z } from 'zod'
+import { emailField, optionalText, trimmedString } from './common'
+
+const quoteId = z.string({ required_error: 'Quote ID is required' }).uuid('Quote ID must be the ID returned when the quote was submitted')
+
+// Slot starts exactly as GET /slots returned them; any UTC offset is accepted
+const slotStart = z.string({ required_error: 'Start time is required' })
+  .datetime({ offset: true, message: 'Start time must be an ISO 8601 date and time' })
+  .transform(value => new Date(value))
+
+const manageToken = trimmedString('Token', 200)
+
+export const appointmentSlotsQuerySchema = z.object({
+  quoteId,
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'from must be a date like 2025-01-31').optional(),
+  days: z.coerce.number().int().min(1, 'days must be between 1 and 31').max(31, 'days must be between 1 and 31').optional(),
+})
+
+export const bookAppointmentSchema = z.object({
+  quoteId,
+  // Must match the quote, so knowing a quote ID alone isn't enough to book on it
+  email: emailField,
+  start: slotStart,
+})
+
+export const manageAppointmentQuerySchema = z.object({
+  token: manageToken,
+})
+
+export const rescheduleAppointmentSchema = z.object({
+  token: manageToken,
+  start: slotStart,
+})
+
+export const cancelAppointmentSchema = z.object({
+  token: manageToken,
+  reason: optionalText(500),
+})
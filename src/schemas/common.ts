@@ -0,0 +1,88 @@
+import { z } from 'zod'
+
+// Lowercase and collapse spaces/hyphens so "Natural Gas" and "natural-gas" both become "natural_gas"
+export const normalizeEnumValue = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+export const trimmedString = (label: string, max = 200) =>
+  z.string({ required_error: `${label} is required`, invalid_type_error: `${label} must be text` })
+    .trim()
+    .min(1, `${label} is required`)
+    .max(max, `${label} must be at most ${max} characters`)
+
+export const optionalText = (max = 2000) =>
+  z.string().trim().max(max, `Must be at most ${max} characters`).optional()
+
+// Enumerated field that accepts any casing/separator style and stores the canonical value
+export const enumField = <T extends string>(label: string, values: readonly [T, ...T[]]) =>
+  z.preprocess(
+    value => (typeof value === 'string' && value.trim() ? normalizeEnumValue(value) : undefined),
+    z.enum(values, {
+      errorMap: () => ({ message: `${label} must be one of: ${values.join(', ')}` })
+    }).optional()
+  )
+
+// Numeric form field kept as a string, checked against an inclusive range
+export const numericString = (label: string, min: number, max: number, integer = true) =>
+  z.preprocess(
+    value => (typeof value === 'number' ? String(value) : typeof value === 'string' && value.trim() ? value.trim().replace(/,/g, '') : undefined),
+    z.string()
+      .superRefine((value, ctx) => {
+        if (!(integer ? /^\d+$/ : /^\d+(\.\d+)?$/).test(value)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} must be ${integer ? 'a whole number' : 'a number'}` })
+        } else if (Number(value) < min || Number(value) > max) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} must be between ${min} and ${max}` })
+        }
+      })
+      .optional()
+  )
+
+export const emailField = trimmedString('Email', 254)
+  .toLowerCase()
+  .email('Email must be a valid email address')
+
+// US phone numbers, normalized to E.164 (+1XXXXXXXXXX)
+export const usPhoneField = z.preprocess(
+  value => (typeof value === 'number' ? String(value) : value),
+  trimmedString('Phone', 30).transform((value, ctx) => {
+    let digits = value.replace(/\D/g, '')
+    if (digits.length === 11 && digits.startsWith('1')) digits = digits.slice(1)
+    if (!/^[2-9]\d{2}[2-9]\d{6}$/.test(digits)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Phone must be a valid US phone number' })
+      return z.NEVER
+    }
+    return `+1${digits}`
+  })
+)
+
+// Checkbox from a JSON or form-encoded body; "on", "true", "yes" and "1" all count as ticked
+export const checkboxField = z.preprocess(
+  value => (typeof value === 'string' ? ['on', 'true', 'yes', '1'].includes(value.trim().toLowerCase()) : value),
+  z.boolean({ invalid_type_error: 'Must be true or false' }).optional()
+)
+
+export const maStateField = trimmedString('State', 30).transform((value, ctx) => {
+  const upper = value.toUpperCase()
+  if (upper !== 'MA' && upper !== 'MASSACHUSETTS') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'We currently only serve Massachusetts (MA)' })
+    return z.NEVER
+  }
+  return 'MA'
+})
+
+export const zipCodeField = z.preprocess(
+  value => (typeof value === 'number' ? String(value).padStart(5, '0') : value),
+  trimmedString('ZIP code', 10).regex(/^\d{5}$/, 'ZIP code must be 5 digits')
+)
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+// Flatten zod issues into field-level errors the frontend can show inline
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map(issue => ({
+    field: issue.path.join('.') || '(body)',
+    message: issue.message,
+  }))
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod'
+import { PROPERTY_TYPES } from '../types/quote'
+import { INSULATION_ESTIMATES, PROPERTY_INFO_VERSION } from '../types/property'
+import { upgradePropertyInfo } from '../services/propertyNormalizer'
+import { trimmedString } from './common'
+
+const propertyInfoValue = z.string().trim().max(500).optional()
+const amount = z.number().nonnegative().optional()
+const year = z.number().int().min(1600).max(2100).optional()
+
+const rawPropertyInfoSchema = z.object({
+  owner: propertyInfoValue,
+  ownerAddress: propertyInfoValue,
+  buildingValue: propertyInfoValue,
+  landValue: propertyInfoValue,
+  otherValue: propertyInfoValue,
+  totalValue: propertyInfoValue,
+  assessmentYear: propertyInfoValue,
+  lotSize: propertyInfoValue,
+  lastSalePrice: propertyInfoValue,
+  lastSaleDate: propertyInfoValue,
+  useCode: propertyInfoValue,
+  yearBuilt: propertyInfoValue,
+})
+
+// Property record as returned by /api/property/info and echoed back in quote submissions.
+// Older clients send the unversioned all-string shape; it is upgraded before validation.
+export const propertyInfoSchema = z.preprocess(upgradePropertyInfo, z.object({
+  version: z.literal(PROPERTY_INFO_VERSION),
+  owner: propertyInfoValue,
+  ownerAddress: propertyInfoValue,
+  buildingValue: amount,
+  landValue: amount,
+  otherValue: amount,
+  totalValue: amount,
+  assessmentYear: year,
+  lotSize: z.object({
+    acres: z.number().nonnegative(),
+    squareFeet: z.number().nonnegative(),
+  }).optional(),
+  lastSalePrice: amount,
+  lastSaleDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Last sale date must be YYYY-MM-DD').optional(),
+  useCode: z.string().trim().max(10).optional(),
+  useLabel: z.string().trim().max(100).optional(),
+  yearBuilt: year,
+  hints: z.object({
+    propertyType: z.enum(PROPERTY_TYPES).optional(),
+    dwellingUnits: z.number().int().positive().optional(),
+    insulation: z.enum(INSULATION_ESTIMATES).optional(),
+    insulationNote: z.string().max(200).optional(),
+  }).default({}),
+  raw: rawPropertyInfoSchema.default({}),
+}))
+
+export const propertyLookupSchema = z.object({
+  city: trimmedString('City', 60),
+  streetName: trimmedString('Street name', 100),
+  addressNumber: z.preprocess(
+    value => (typeof value === 'number' ? String(value) : value),
+    trimmedString('Address number', 20)
+      .regex(/^\d+[A-Za-z]?(-\d+[A-Za-z]?)?$/, 'Address number must look like 12, 12A or 12-14')
+  ),
+})
+
+export const streetsQuerySchema = z.object({
+  town: trimmedString('Town', 60),
+})
+
+export const numbersQuerySchema = z.object({
+  town: trimmedString('Town', 60),
+  street: trimmedString('Street', 100),
+})
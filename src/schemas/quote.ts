@@ -0,0 +1,63 @@
+import { z } from 'zod'
+import {
+  BASEMENT_TYPES,
+  HEATING_SOURCES,
+  INSTALLATION_TIMELINES,
+  OWNERSHIP_TYPES,
+  PROPERTY_TYPES,
+  YES_NO,
+} from '../types/quote'
+import {
+  checkboxField,
+  emailField,
+  enumField,
+  maStateField,
+  numericString,
+  optionalText,
+  trimmedString,
+  usPhoneField,
+  zipCodeField,
+} from './common'
+import { propertyInfoSchema } from './property'
+
+const currentYear = new Date().getFullYear()
+
+// Home details used for pricing; shared by /estimate and /submit
+export const homeDetailsSchema = z.object({
+  propertyInfo: propertyInfoSchema.optional(),
+  propertyType: enumField('Property type', PROPERTY_TYPES),
+  yearBuilt: numericString('Year built', 1700, currentYear + 1),
+  squareFootage: numericString('Square footage', 200, 20000),
+  floorsAboveGround: numericString('Floors above ground', 1, 6),
+  bedrooms: numericString('Bedrooms', 0, 20),
+  bathrooms: numericString('Bathrooms', 0, 20, false),
+  hasAttic: enumField('Has attic', YES_NO),
+  basementType: enumField('Basement type', BASEMENT_TYPES),
+  heatingSource: enumField('Heating source', HEATING_SOURCES),
+  electricityProvider: optionalText(100),
+  naturalGasProvider: optionalText(100),
+})
+
+// The email on the quote must be given to download its proposal, so the ID alone isn't enough
+export const proposalQuerySchema = z.object({
+  email: emailField,
+})
+
+export const quoteSchema = homeDetailsSchema.extend({
+  firstName: trimmedString('First name', 100),
+  lastName: trimmedString('Last name', 100),
+  email: emailField,
+  phone: usPhoneField,
+  smsConsent: checkboxField,
+  address: trimmedString('Address', 200),
+  city: trimmedString('City', 60),
+  state: maStateField,
+  zipCode: zipCodeField,
+  additionalNotes: optionalText(),
+  ownership: enumField('Ownership', OWNERSHIP_TYPES),
+  installationTimeline: enumField('Installation timeline', INSTALLATION_TIMELINES),
+  quote: z.object({
+    totalPrice: z.number().nonnegative().optional(),
+    estimatedSavings: z.number().nonnegative().optional(),
+  }).optional(),
+})
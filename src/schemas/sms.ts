@@ -0,0 +1,9 @@
+import { z } from 'zod'
+
+// Fields Twilio posts for an incoming text; the rest of its parameters are ignored
+export const inboundSmsSchema = z.object({
+  From: z.string({ required_error: 'From is required' }).regex(/^\+\d{8,15}$/, 'From must be an E.164 phone number'),
+  // Empty for picture-only messages
+  Body: z.string().max(1600, 'Body must be at most 1600 characters').default(''),
+  MessageSid: z.string().max(64).optional(),
+})
@@ -1,23 +1,42 @@
+// Must stay first: loads .env and exits on invalid configuration before other modules read it
+import './config/startup'
 import express from 'express'
 import cors from 'cors'
-import dotenv from 'dotenv'
 import quoteRoutes from './routes/quote'
 import propertyRoutes from './routes/property'
+import adminRoutes from './routes/admin'
+import healthRoutes from './routes/health'
+import appointmentRoutes from './routes/appointments'
+import smsRoutes from './routes/sms'
+import { startOutboxWorker, stopOutboxWorker } from './services/emailOutbox'
+import { startWebhookWorker, stopWebhookWorker } from './services/webhooks'
+import { shutdownBrowserPool } from './services/browserPool'
+import { resumePendingQuoteLookups } from './services/quotePropertyLookup'
+import { requestContext } from './middleware/requestContext'
+import { errorHandler, notFoundHandler } from './middleware/errorHandler'
+import { ForbiddenError, UnauthorizedError } from './errors'
+import { logger } from './services/logger'
+import { renderMetrics } from './services/metrics'
+import { markShuttingDown } from './services/healthChecks'
+import { configSummary, getConfig } from './config'
 
-// Load environment variables
-dotenv.config()
-
+const config = getConfig()
 const app = express()
-const PORT = process.env.PORT || 3001
+const PORT = config.port
+
+logger.info('Configuration loaded', { config: configSummary(config) })
+for (const warning of config.warnings) logger.warn(`Configuration: ${warning}`)
+
+// Behind a proxy, take the client IP from X-Forwarded-For so rate limits apply per visitor
+if (config.trustProxy !== undefined) {
+  app.set('trust proxy', config.trustProxy)
+}
 
 // Middleware
-// Allow multiple origins for CORS
-const allowedOrigins = [
-  process.env.FRONTEND_URL || 'http://localhost:3000',
-  'https://www.valorhvacma.com',
-  'https://valorhvacma.com',
-  'http://localhost:3000'
-].filter(Boolean)
+app.use(requestContext)
+
+// Allowed origins come from CORS_ORIGINS (plus FRONTEND_URL), with per-environment defaults
+const allowedOrigins = config.corsOrigins
 
 app.use(cors({
   origin: (origin, callback) => {
@@ -27,7 +46,7 @@ app.use(cors({
     if (allowedOrigins.includes(origin)) {
       callback(null, true)
     } else {
-      callback(new Error('Not allowed by CORS'))
+      callback(new ForbiddenError('Origin not allowed', 'ORIGIN_NOT_ALLOWED'))
     }
   },
   credentials: true
@@ -35,27 +54,66 @@ app.use(cors({
 app.use(express.json())
 app.use(express.urlencoded({ extended: true }))
 
-// Health check endpoint
-app.get('/health', (req: express.Request, res: express.Response) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() })
+// Liveness (/health/live) and dependency readiness (/health/ready)
+app.use('/health', healthRoutes)
+
+// Prometheus scrape target; set METRICS_TOKEN to require `Authorization: Bearer <token>`
+app.get('/metrics', (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const token = config.metricsToken
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    return next(new UnauthorizedError())
+  }
+  res.type('text/plain; version=0.0.4').send(renderMetrics())
 })
 
 // API Routes
-app.use('/api/quote', quoteRoutes)
-app.use('/api/property', propertyRoutes)
-
-// Error handling middleware
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Error:', err)
-  res.status(err.status || 500).json({
-    error: err.message || 'Internal server error',
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
-  })
-})
+const api = express.Router()
+api.use('/quote', quoteRoutes)
+api.use('/property', propertyRoutes)
+api.use('/appointments', appointmentRoutes)
+api.use('/sms', smsRoutes)
+api.use('/admin', adminRoutes)
+
+app.use('/api/v1', api)
+// Unversioned paths predate /api/v1 and stay as aliases for existing clients
+app.use('/api', (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  res.set('Link', `</api/v1${req.path}>; rel="successor-version"`)
+  next()
+}, api)
+app.use('/api', notFoundHandler)
+
+// Every error leaves as { success: false, error, code, details?, requestId }
+app.use(errorHandler)
+
+// Retry queued emails in the background
+startOutboxWorker()
+
+// Retry failed CRM webhook deliveries
+startWebhookWorker()
+
+// Finish property lookups for quotes submitted just before the last shutdown
+resumePendingQuoteLookups().catch(error => logger.error('Failed to resume property lookups', { error }))
 
 // Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Valor HVAC Backend Server running on port ${PORT}`)
-  console.log(`📡 Health check: http://localhost:${PORT}/health`)
-  console.log(`🔗 API base URL: http://localhost:${PORT}/api`)
+const server = app.listen(PORT, () => {
+  logger.info('Valor HVAC Backend Server started', {
+    port: Number(PORT),
+    healthCheck: `http://localhost:${PORT}/health/ready`,
+    apiBaseUrl: `http://localhost:${PORT}/api/v1`,
+  })
 })
+
+// Stop accepting requests, then close Chromium so no orphaned processes are left behind
+const shutdown = (signal: string) => {
+  logger.info('Shutting down', { signal })
+  markShuttingDown()
+  stopOutboxWorker()
+  stopWebhookWorker()
+  server.close()
+  shutdownBrowserPool()
+    .catch(error => logger.error('Browser pool shutdown error', { error }))
+    .finally(() => process.exit(0))
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+process.on('SIGINT', () => shutdown('SIGINT'))
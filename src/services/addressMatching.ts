@@ -0,0 +1,224 @@
+import townAliases from '../config/townAliases.json'
+import { SelectOption } from '../types/property'
+import { ApiError } from '../errors'
+
+export type MatchLevel = 'town' | 'street' | 'number'
+
+export interface ScoredOption extends SelectOption {
+  score: number
+}
+
+export interface MatchOutcome {
+  best?: ScoredOption
+  candidates: ScoredOption[]
+  confident: boolean
+}
+
+// Lowest score accepted without asking the user, per level
+const MIN_CONFIDENCE: Record<MatchLevel, number> = {
+  town: 0.9,
+  street: 0.9,
+  number: 0.85,
+}
+
+// A runner-up this close to the best match makes the choice ambiguous
+const AMBIGUITY_MARGIN = 0.05
+const MAX_CANDIDATES = 5
+const MIN_CANDIDATE_SCORE = 0.3
+
+const STREET_SUFFIXES: Record<string, string> = {
+  STREET: 'ST', STR: 'ST', ST: 'ST',
+  ROAD: 'RD', RD: 'RD',
+  AVENUE: 'AVE', AVE: 'AVE', AV: 'AVE',
+  DRIVE: 'DR', DR: 'DR',
+  LANE: 'LN', LN: 'LN',
+  COURT: 'CT', CT: 'CT',
+  PLACE: 'PL', PL: 'PL',
+  TERRACE: 'TER', TERR: 'TER', TER: 'TER',
+  CIRCLE: 'CIR', CIR: 'CIR',
+  BOULEVARD: 'BLVD', BLVD: 'BLVD',
+  PARKWAY: 'PKWY', PKWY: 'PKWY',
+  HIGHWAY: 'HWY', HWY: 'HWY',
+  SQUARE: 'SQ', SQ: 'SQ',
+  HILL: 'HL', HL: 'HL',
+  PATH: 'PATH', WAY: 'WAY', ROW: 'ROW',
+}
+
+const DIRECTIONS: Record<string, string> = {
+  NORTH: 'N', SOUTH: 'S', EAST: 'E', WEST: 'W',
+}
+
+const LEADING_WORDS: Record<string, string> = {
+  MOUNT: 'MT', SAINT: 'ST', FORT: 'FT',
+}
+
+const aliases: Record<string, string> = townAliases
+
+const cleanText = (value: string) =>
+  value.toUpperCase().replace(/['’]/g, '').replace(/[^A-Z0-9\- ]+/g, ' ').replace(/\s+/g, ' ').trim()
+
+export function normalizeTown(value: string): string {
+  const cleaned = cleanText(value).replace(/^TOWN OF |^CITY OF /, '')
+  return aliases[cleaned] || cleaned
+}
+
+// "Main Street" and "MAIN ST." both become "MAIN ST"
+export function normalizeStreet(value: string): string {
+  const tokens = cleanText(value).split(' ').filter(Boolean)
+  return tokens.map((token, index) => {
+    if (index === tokens.length - 1 && STREET_SUFFIXES[token]) return STREET_SUFFIXES[token]
+    if (index === 0 && tokens.length > 1 && LEADING_WORDS[token]) return LEADING_WORDS[token]
+    if ((index === 0 || index === tokens.length - 1) && tokens.length > 1 && DIRECTIONS[token]) return DIRECTIONS[token]
+    return token
+  }).join(' ')
+}
+
+// Street name without its suffix ("MAIN ST" → "MAIN")
+export function streetBase(normalized: string): { base: string; suffix?: string } {
+  const tokens = normalized.split(' ')
+  const last = tokens[tokens.length - 1]
+  if (tokens.length > 1 && Object.values(STREET_SUFFIXES).includes(last)) {
+    return { base: tokens.slice(0, -1).join(' '), suffix: last }
+  }
+  return { base: normalized }
+}
+
+// "12 a" and "12A" both become "12A"
+export function normalizeNumber(value: string): string {
+  return value.toUpperCase().replace(/\s+/g, '').replace(/^#/, '')
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      diagonal = above
+    }
+  }
+  return previous[b.length]
+}
+
+const similarity = (a: string, b: string) =>
+  a === b ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1)
+
+export function scoreTown(input: string, option: string): number {
+  const a = normalizeTown(input)
+  const b = normalizeTown(option)
+  if (a === b) return 1
+  // Typos never reach the confidence threshold on their own
+  return similarity(a, b) * 0.85
+}
+
+export function scoreStreet(input: string, option: string): number {
+  const a = normalizeStreet(input)
+  const b = normalizeStreet(option)
+  if (a === b) return 1
+
+  const inputParts = streetBase(a)
+  const optionParts = streetBase(b)
+  if (inputParts.base === optionParts.base) {
+    // "Main" matches "Main St"; "Main Rd" vs "Main St" is a different street
+    return inputParts.suffix ? 0.75 : 0.92
+  }
+  return similarity(a, b) * 0.85
+}
+
+export function scoreNumber(input: string, option: string): number {
+  const a = normalizeNumber(input)
+  const b = normalizeNumber(option)
+  if (a === b) return 1
+
+  const inputBase = a.match(/^\d+/)?.[0]
+  const optionBase = b.match(/^\d+/)?.[0]
+  if (!inputBase || !optionBase) return 0
+
+  // Ranges like "12-14" cover every number in between
+  const range = b.match(/^(\d+)[A-Z]?-(\d+)[A-Z]?$/)
+  if (range && a === inputBase) {
+    const value = Number(inputBase)
+    if (value >= Number(range[1]) && value <= Number(range[2])) return 0.85
+  }
+
+  if (inputBase === optionBase) {
+    // "12" vs "12A" (a unit of the building) or "12A" vs "12"
+    return a === inputBase ? 0.7 : 0.6
+  }
+  return 0
+}
+
+const SCORERS: Record<MatchLevel, (input: string, option: string) => number> = {
+  town: scoreTown,
+  street: scoreStreet,
+  number: scoreNumber,
+}
+
+/**
+ * Score every option against the input and decide whether the best one is
+ * safe to use. Ties are broken by the option order on the form, so the same
+ * input always picks the same option.
+ */
+export function matchOption(level: MatchLevel, input: string, options: SelectOption[]): MatchOutcome {
+  const scorer = SCORERS[level]
+  const ranked = options
+    .map((option, index) => ({
+      index,
+      scored: { ...option, score: Math.round(Math.max(scorer(input, option.text), scorer(input, option.value)) * 1000) / 1000 },
+    }))
+    .sort((a, b) => b.scored.score - a.scored.score || a.index - b.index)
+    .map(entry => entry.scored)
+
+  const best = ranked[0]
+  const runnerUp = ranked[1]
+  const ambiguous = !!best && best.score < 1 && !!runnerUp && best.score - runnerUp.score < AMBIGUITY_MARGIN
+  const confident = !!best && best.score >= MIN_CONFIDENCE[level] && !ambiguous
+
+  return {
+    best: confident ? best : undefined,
+    candidates: ranked.filter(option => option.score >= MIN_CANDIDATE_SCORE).slice(0, MAX_CANDIDATES),
+    confident,
+  }
+}
+
+// Unit designators dropped from a street line before it is split
+const UNIT_PATTERN = /[\s,]+(?:APT|APARTMENT|UNIT|STE|SUITE|FL|FLOOR|#)\.?\s*#?\s*(?:[A-Z]?\d+[A-Z]?|[A-Z])$/i
+
+/**
+ * Split a street line such as "12A Main Street, Apt 3" into its house number
+ * and street. Returns null when the line doesn't start with a house number.
+ */
+export function splitStreetAddress(line: string): { addressNumber: string; streetName: string } | null {
+  const cleaned = line.trim().replace(UNIT_PATTERN, '').replace(/[\s,]+$/, '')
+  const match = cleaned.match(/^(\d+[A-Za-z]?(?:-\d+[A-Za-z]?)?)[\s,]+(.+)$/)
+  if (!match) return null
+  return { addressNumber: match[1].toUpperCase(), streetName: match[2].trim() }
+}
+
+// Raised instead of guessing when an address part can't be matched confidently
+export class AddressMatchError extends ApiError {
+  constructor(
+    public readonly level: MatchLevel,
+    public readonly input: string,
+    public readonly candidates: ScoredOption[]
+  ) {
+    // No plausible candidates means the address doesn't exist (404); otherwise let the user pick (422)
+    super(
+      candidates.length > 0 ? 422 : 404,
+      candidates.length > 0 ? 'ADDRESS_AMBIGUOUS' : 'ADDRESS_NOT_FOUND',
+      candidates.length > 0 ? `Could not confidently match ${level} "${input}"` : `No ${level} matches "${input}"`,
+      {
+        field: level,
+        input,
+        candidates: candidates.map(candidate => ({ text: candidate.text, score: candidate.score })),
+      }
+    )
+    this.name = 'AddressMatchError'
+  }
+}
@@ -0,0 +1,193 @@
+import fs from 'fs'
+import { z } from 'zod'
+import defaultCalendar from '../config/technicianCalendar.json'
+import { getConfig } from '../config'
+import { ApiError } from '../errors'
+import { normalizeTown } from './addressMatching'
+import { Appointment, AppointmentSlot } from '../types/appointment'
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM')
+const calendarDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const calendarSchema = z.object({
+  timeZone: z.string().refine(isTimeZone, 'Expected an IANA time zone such as America/New_York'),
+  visitMinutes: z.number().int().positive(),
+  slotIntervalMinutes: z.number().int().positive(),
+  // Kept free before and after each visit for driving between homes
+  travelBufferMinutes: z.number().int().min(0),
+  minNoticeHours: z.number().min(0),
+  bookingWindowDays: z.number().int().positive(),
+  closedDates: z.array(calendarDate).default([]),
+  technicians: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    workingHours: z.record(z.enum(WEEKDAYS), z.tuple([clockTime, clockTime])),
+    towns: z.array(z.string().min(1)).min(1),
+  })).min(1),
+})
+
+export type TechnicianCalendar = z.infer<typeof calendarSchema>
+export type Technician = TechnicianCalendar['technicians'][number]
+
+// Like the price tables, the calendar can be swapped by pointing APPOINTMENT_CALENDAR_PATH at a JSON file
+function loadCalendar(): TechnicianCalendar {
+  const calendarPath = getConfig().appointmentCalendarPath
+  const raw = calendarPath ? JSON.parse(fs.readFileSync(calendarPath, 'utf8')) : defaultCalendar
+  // A broken calendar fails at startup rather than on the first booking
+  return calendarSchema.parse(raw)
+}
+
+const calendar = loadCalendar()
+
+export const calendarTimeZone = () => calendar.timeZone
+
+export const getTechnician = (id: string) => calendar.technicians.find(technician => technician.id === id)
+
+function zonedParts(instant: Date) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: calendar.timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant)
+  const value = (type: string) => Number(parts.find(part => part.type === type)!.value)
+  return { year: value('year'), month: value('month'), day: value('day'), hour: value('hour'), minute: value('minute') }
+}
+
+// Minutes the calendar's time zone is ahead of UTC at that instant (negative in the Americas)
+function offsetMinutes(instant: Date): number {
+  const { year, month, day, hour, minute } = zonedParts(instant)
+  return (Date.UTC(year, month - 1, day, hour, minute) - Math.floor(instant.getTime() / 60000) * 60000) / 60000
+}
+
+// Wall-clock time on a calendar day in the calendar's time zone, as a UTC instant
+export function zonedTime(day: string, time: string): Date {
+  const [year, month, date] = day.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, date, hour, minute)
+  // The second pass corrects for a DST change between the guess and the answer
+  const guess = wallClock - offsetMinutes(new Date(wallClock)) * 60000
+  return new Date(wallClock - offsetMinutes(new Date(guess)) * 60000)
+}
+
+// Calendar day (YYYY-MM-DD) of an instant in the calendar's time zone
+export function localDay(instant: Date): string {
+  const { year, month, day } = zonedParts(instant)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+export function addDays(day: string, count: number): string {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, date + count)).toISOString().slice(0, 10)
+}
+
+const weekday = (day: string) => WEEKDAYS[new Date(`${day}T12:00:00Z`).getUTCDay()]
+
+export function techniciansForTown(town: string): Technician[] {
+  const normalized = normalizeTown(town)
+  return calendar.technicians.filter(technician => technician.towns.some(served => normalizeTown(served) === normalized))
+}
+
+// Booking and listing slots both start here, so an out-of-area quote gets the same answer from each
+function requireServiceArea(town: string): Technician[] {
+  const technicians = techniciansForTown(town)
+  if (technicians.length === 0) {
+    throw new ApiError(422, 'OUTSIDE_SERVICE_AREA', `We don't schedule site visits in ${town} online yet. Please call us to arrange one.`, { town })
+  }
+  return technicians
+}
+
+// Start times on a day when the technician could begin a visit and still finish before closing
+function workingStarts(technician: Technician, day: string): Date[] {
+  const hours = technician.workingHours[weekday(day)]
+  if (!hours || calendar.closedDates.includes(day)) return []
+
+  const opens = zonedTime(day, hours[0]).getTime()
+  const closes = zonedTime(day, hours[1]).getTime()
+  const visitMs = calendar.visitMinutes * 60000
+  const starts: Date[] = []
+  for (let start = opens; start + visitMs <= closes; start += calendar.slotIntervalMinutes * 60000) {
+    starts.push(new Date(start))
+  }
+  return starts
+}
+
+function isFree(technician: Technician, start: Date, booked: Appointment[]): boolean {
+  const bufferMs = calendar.travelBufferMinutes * 60000
+  const startMs = start.getTime()
+  const endMs = startMs + calendar.visitMinutes * 60000
+  return booked
+    .filter(appointment => appointment.technicianId === technician.id && appointment.status === 'booked')
+    .every(appointment =>
+      endMs + bufferMs <= Date.parse(appointment.start) || startMs >= Date.parse(appointment.end) + bufferMs
+    )
+}
+
+// Bookable instants run from minNoticeHours from now to the end of the booking window
+function bookingWindow(now: Date) {
+  const today = localDay(now)
+  return {
+    earliest: new Date(now.getTime() + calendar.minNoticeHours * 3600000),
+    firstDay: today,
+    lastDay: addDays(today, calendar.bookingWindowDays),
+  }
+}
+
+export const slotFor = (start: Date): AppointmentSlot => ({
+  start: start.toISOString(),
+  end: new Date(start.getTime() + calendar.visitMinutes * 60000).toISOString(),
+})
+
+/**
+ * Open site-visit slots for a town, across every technician serving it.
+ * Starts at the later of `from` and today, and never goes past the booking
+ * window. booked should hold every active appointment.
+ */
+export function availableSlots(town: string, booked: Appointment[], options: { from?: string; days?: number; now?: Date } = {}): AppointmentSlot[] {
+  const technicians = requireServiceArea(town)
+  const window = bookingWindow(options.now || new Date())
+  const firstDay = options.from && options.from > window.firstDay ? options.from : window.firstDay
+  const lastDay = options.days ? [addDays(firstDay, options.days - 1), window.lastDay].sort()[0] : window.lastDay
+
+  const starts = new Map<number, Date>()
+  for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+    for (const technician of technicians) {
+      for (const start of workingStarts(technician, day)) {
+        if (start >= window.earliest && !starts.has(start.getTime()) && isFree(technician, start, booked)) {
+          starts.set(start.getTime(), start)
+        }
+      }
+    }
+  }
+  return Array.from(starts.values()).sort((a, b) => a.getTime() - b.getTime()).map(slotFor)
+}
+
+/**
+ * The technician who can take a visit at `start` in this town, or undefined
+ * when the time is not an open slot. Leave the appointment being moved out
+ * of booked when rescheduling.
+ */
+export function assignTechnician(town: string, start: Date, booked: Appointment[], now = new Date()): Technician | undefined {
+  const technicians = requireServiceArea(town)
+  const window = bookingWindow(now)
+  const day = localDay(start)
+  if (start < window.earliest || day > window.lastDay) return undefined
+
+  return technicians.find(technician =>
+    workingStarts(technician, day).some(slot => slot.getTime() === start.getTime()) && isFree(technician, start, booked)
+  )
+}
@@ -0,0 +1,130 @@
+import crypto from 'crypto'
+import path from 'path'
+import { JsonStore } from './jsonStore'
+import { assignTechnician, slotFor } from './appointmentCalendar'
+import { getConfig } from '../config'
+import { ConflictError } from '../errors'
+import { Appointment, AppointmentChange, AppointmentStatus } from '../types/appointment'
+import { StoredQuote } from '../types/quote'
+
+const store = new JsonStore<Appointment>(path.join(getConfig().dataDir, 'appointments.json'))
+
+// Checks and writes run one at a time so two customers can't take the same slot
+let bookingChain: Promise<unknown> = Promise.resolve()
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const run = bookingChain.then(task, task)
+  bookingChain = run.catch(() => {})
+  return run
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex')
+
+export function tokenMatches(appointment: Appointment, token: string): boolean {
+  const expected = Buffer.from(appointment.manageTokenHash, 'hex')
+  const actual = Buffer.from(hashToken(token), 'hex')
+  return crypto.timingSafeEqual(expected, actual)
+}
+
+export interface AppointmentFilters {
+  quoteId?: string
+  technicianId?: string
+  status?: AppointmentStatus
+  // Appointments starting in [from, to)
+  from?: Date
+  to?: Date
+}
+
+// Soonest first
+export async function listAppointments(filters: AppointmentFilters = {}): Promise<Appointment[]> {
+  const records = await store.all()
+  return records
+    .filter(record =>
+      (!filters.quoteId || record.quoteId === filters.quoteId) &&
+      (!filters.technicianId || record.technicianId === filters.technicianId) &&
+      (!filters.status || record.status === filters.status) &&
+      (!filters.from || Date.parse(record.start) >= filters.from.getTime()) &&
+      (!filters.to || Date.parse(record.start) < filters.to.getTime())
+    )
+    .sort((a, b) => a.start.localeCompare(b.start))
+}
+
+export async function getAppointment(id: string): Promise<Appointment | undefined> {
+  return store.get(id)
+}
+
+const slotTaken = () => new ConflictError('That time is no longer available. Please pick another slot.', 'SLOT_UNAVAILABLE')
+
+/**
+ * Book a site visit for a quote at one of the open slots. Returns the
+ * appointment and the token the customer needs to change it; only a hash of
+ * the token is stored. A quote has at most one booked visit at a time.
+ */
+export async function bookAppointment(quote: StoredQuote, start: Date, by: AppointmentChange['by'] = 'customer'): Promise<{ appointment: Appointment; token: string }> {
+  return serialized(async () => {
+    const booked = await listAppointments({ status: 'booked' })
+    const existing = booked.find(appointment => appointment.quoteId === quote.id)
+    if (existing) {
+      throw new ConflictError('This quote already has a site visit booked. Reschedule or cancel it instead.', 'CONFLICT', { appointmentId: existing.id })
+    }
+
+    const technician = assignTechnician(quote.data.city, start, booked)
+    if (!technician) throw slotTaken()
+
+    const token = crypto.randomBytes(24).toString('base64url')
+    const now = new Date().toISOString()
+    const appointment = await store.insert({
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      quoteId: quote.id,
+      technicianId: technician.id,
+      status: 'booked',
+      ...slotFor(start),
+      sequence: 0,
+      manageTokenHash: hashToken(token),
+      history: [{ action: 'booked', at: now, by, start: start.toISOString() }],
+    })
+    return { appointment, token }
+  })
+}
+
+// Move a booked visit to another open slot, possibly with a different technician
+export async function rescheduleAppointment(id: string, town: string, start: Date, by: AppointmentChange['by'] = 'customer'): Promise<Appointment | undefined> {
+  return serialized(async () => {
+    const current = await store.get(id)
+    if (!current) return undefined
+    if (current.status !== 'booked') throw new ConflictError('This site visit was cancelled. Book a new one instead.')
+
+    const others = (await listAppointments({ status: 'booked' })).filter(appointment => appointment.id !== id)
+    const technician = assignTechnician(town, start, others)
+    if (!technician) throw slotTaken()
+
+    const now = new Date().toISOString()
+    return store.update(id, record => ({
+      ...record,
+      ...slotFor(start),
+      technicianId: technician.id,
+      updatedAt: now,
+      sequence: record.sequence + 1,
+      history: [...record.history, { action: 'rescheduled', at: now, by, start: start.toISOString() }],
+    }))
+  })
+}
+
+export async function cancelAppointment(id: string, by: AppointmentChange['by'] = 'customer', reason?: string): Promise<Appointment | undefined> {
+  return serialized(async () => {
+    const current = await store.get(id)
+    if (!current) return undefined
+    if (current.status === 'cancelled') return current
+
+    const now = new Date().toISOString()
+    return store.update(id, record => ({
+      ...record,
+      status: 'cancelled',
+      updatedAt: now,
+      sequence: record.sequence + 1,
+      history: [...record.history, { action: 'cancelled', at: now, by, ...(reason && { reason }) }],
+    }))
+  })
+}
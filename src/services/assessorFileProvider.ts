@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { MatchedAddress, PropertyLookupData, PropertyLookupRequest, SelectOption } from '../types/property'
+import { AddressMatchError, ScoredOption, matchOption, normalizeNumber, normalizeStreet, normalizeTown } from './addressMatching'
+import { AssessorRecord, rawFromAssessorRecord, recordField } from './assessorRecords'
+import { normalizePropertyInfo } from './propertyNormalizer'
+import { PropertyProvider } from './propertyProvider'
+import { ScrapeHooks } from './propertyScraper'
+
+// Each level is keyed by normalized text and keeps the text as the file spells it
+interface IndexedNumber {
+  text: string
+  record: AssessorRecord
+}
+
+interface IndexedStreet {
+  text: string
+  numbers: Map<string, IndexedNumber>
+}
+
+interface IndexedTown {
+  text: string
+  streets: Map<string, IndexedStreet>
+}
+
+type AssessorIndex = Map<string, IndexedTown>
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes and newlines inside quotes
+function parseCsv(content: string): AssessorRecord[] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const [header, ...body] = rows.filter(cells => cells.some(cell => cell.trim()))
+  if (!header) return []
+  const columns = header.map(name => name.replace(/^\uFEFF/, '').trim())
+  return body.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])))
+}
+
+function parseGeoJson(content: string): AssessorRecord[] {
+  const collection = JSON.parse(content)
+  const features: any[] = Array.isArray(collection?.features) ? collection.features : []
+  return features.map(feature => feature?.properties || {}).filter(properties => typeof properties === 'object')
+}
+
+const toOptions = (entries: Map<string, { text: string }>): SelectOption[] =>
+  Array.from(entries.entries()).map(([value, entry]) => ({ value, text: entry.text }))
+
+/**
+ * Serves lookups from assessor exports dropped into a directory as .csv,
+ * .geojson or .json files, e.g. for RI and NH border towns the state form
+ * doesn't cover. Column names are mapped by assessorRecords. Files are
+ * re-indexed when the directory contents change.
+ */
+export class AssessorFileProvider implements PropertyProvider {
+  readonly name = 'assessor-files'
+  private index: AssessorIndex = new Map()
+  private signature = ''
+
+  constructor(private readonly directory: string) {}
+
+  async lookup({ city, streetName, addressNumber }: PropertyLookupRequest, hooks?: ScrapeHooks): Promise<PropertyLookupData | null> {
+    const index = await this.loadIndex()
+    if (index.size === 0) return null
+
+    // A town with no local data belongs to another provider
+    const townMatch = matchOption('town', city, toOptions(index))
+    if (!townMatch.best) return null
+    const town = index.get(townMatch.best.value)!
+
+    const street = this.require('street', streetName, toOptions(town.streets))
+    const numbers = town.streets.get(street.value)!.numbers
+    const number = this.require('number', addressNumber, toOptions(numbers))
+
+    hooks?.onProgress?.('parsing')
+    const matched: MatchedAddress = {
+      town: town.text,
+      street: street.text,
+      addressNumber: number.text,
+      scores: { town: townMatch.best.score, street: street.score, addressNumber: number.score },
+    }
+    return { propertyInfo: normalizePropertyInfo(rawFromAssessorRecord(numbers.get(number.value)!.record)), matched }
+  }
+
+  private require(level: 'street' | 'number', input: string, options: SelectOption[]): ScoredOption {
+    const outcome = matchOption(level, input, options)
+    if (!outcome.best) throw new AddressMatchError(level, input, outcome.candidates)
+    return outcome.best
+  }
+
+  private async dataFiles(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory)
+      return entries.filter(name => /\.(csv|geojson|json)$/i.test(name)).sort().map(name => path.join(this.directory, name))
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  private async loadIndex(): Promise<AssessorIndex> {
+    const files = await this.dataFiles()
+    const stats = await Promise.all(files.map(file => fs.stat(file)))
+    const signature = files.map((file, i) => `${file}:${stats[i].mtimeMs}:${stats[i].size}`).join('|')
+    if (signature === this.signature) return this.index
+
+    const index: AssessorIndex = new Map()
+    for (const file of files) {
+      const content = await fs.readFile(file, 'utf8')
+      const records = /\.csv$/i.test(file) ? parseCsv(content) : parseGeoJson(content)
+      for (const record of records) {
+        const townText = recordField(record, 'town')
+        const streetText = recordField(record, 'street')
+        const numberText = recordField(record, 'addressNumber')
+        if (!townText || !streetText || !numberText) continue
+
+        const townKey = normalizeTown(townText)
+        if (!index.has(townKey)) index.set(townKey, { text: townText.toUpperCase(), streets: new Map() })
+        const streets = index.get(townKey)!.streets
+
+        const streetKey = normalizeStreet(streetText)
+        if (!streets.has(streetKey)) streets.set(streetKey, { text: streetText.toUpperCase(), numbers: new Map() })
+
+        // Later files win, so a fresh export can be dropped in next to an old one
+        streets.get(streetKey)!.numbers.set(normalizeNumber(numberText), { text: numberText.toUpperCase(), record })
+      }
+    }
+
+    this.index = index
+    this.signature = signature
+    return index
+  }
+}
@@ -0,0 +1,82 @@
+import { RawPropertyInfo } from '../types/property'
+
+/**
+ * Assessor records arrive with different column names depending on the source:
+ * MassGIS L3 parcels use OWNER1, BLDG_VAL, LS_DATE and so on, while local
+ * exports from RI/NH towns tend to use spelled-out headers. Keys are compared
+ * lowercased with punctuation removed, so "Year Built", "year_built" and
+ * "YEAR_BUILT" are the same column.
+ */
+const FIELD_ALIASES = {
+  town: ['town', 'city', 'municipality'],
+  street: ['fullstr', 'street', 'streetname'],
+  addressNumber: ['addrnum', 'addressnumber', 'number', 'housenumber'],
+  owner: ['owner1', 'owner', 'ownername'],
+  ownerAddress: ['ownaddr', 'owneraddress', 'mailingaddress'],
+  ownerCity: ['owncity', 'ownercity', 'mailingcity'],
+  ownerState: ['ownstate', 'ownerstate', 'mailingstate'],
+  ownerZip: ['ownzip', 'ownerzip', 'mailingzip'],
+  buildingValue: ['bldgval', 'buildingvalue'],
+  landValue: ['landval', 'landvalue'],
+  otherValue: ['otherval', 'othervalue'],
+  totalValue: ['totalval', 'totalvalue', 'assessedvalue'],
+  assessmentYear: ['fy', 'fiscalyear', 'assessmentyear'],
+  lotSize: ['lotsize', 'lotacres'],
+  lotUnits: ['lotunits'],
+  lastSalePrice: ['lsprice', 'lastsaleprice', 'saleprice'],
+  lastSaleDate: ['lsdate', 'lastsaledate', 'saledate'],
+  useCode: ['usecode', 'landuse'],
+  yearBuilt: ['yearbuilt', 'yrbuilt'],
+}
+
+export type AssessorField = keyof typeof FIELD_ALIASES
+
+export type AssessorRecord = Record<string, unknown>
+
+const columnKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+// First non-empty value among the field's known column names
+export function recordField(record: AssessorRecord, field: AssessorField): string | undefined {
+  const aliases = FIELD_ALIASES[field]
+  for (const [key, value] of Object.entries(record)) {
+    if (!aliases.includes(columnKey(key))) continue
+    if (value === undefined || value === null) continue
+    const text = String(value).trim()
+    if (text) return text
+  }
+  return undefined
+}
+
+// Lot size with its unit spelled out so the normalizer can convert it
+function lotSizeText(record: AssessorRecord): string | undefined {
+  const size = recordField(record, 'lotSize')
+  if (!size) return undefined
+  const units = (recordField(record, 'lotUnits') || 'A').toUpperCase()
+  return units.startsWith('S') ? `${size} sq ft` : `${size} Acres`
+}
+
+// Map one assessor record onto the same strings the result-page parser produces
+export function rawFromAssessorRecord(record: AssessorRecord): RawPropertyInfo {
+  const ownerCityLine = [
+    recordField(record, 'ownerCity'),
+    recordField(record, 'ownerState'),
+    recordField(record, 'ownerZip'),
+  ].filter(Boolean).join(' ')
+  const ownerAddress = [recordField(record, 'ownerAddress'), ownerCityLine].filter(Boolean).join(', ')
+  const assessmentYear = recordField(record, 'assessmentYear')
+
+  return {
+    owner: recordField(record, 'owner'),
+    ownerAddress: ownerAddress || undefined,
+    buildingValue: recordField(record, 'buildingValue'),
+    landValue: recordField(record, 'landValue'),
+    otherValue: recordField(record, 'otherValue'),
+    totalValue: recordField(record, 'totalValue'),
+    assessmentYear: assessmentYear && /^\d{4}$/.test(assessmentYear) ? `FY ${assessmentYear}` : assessmentYear,
+    lotSize: lotSizeText(record),
+    lastSalePrice: recordField(record, 'lastSalePrice'),
+    lastSaleDate: recordField(record, 'lastSaleDate'),
+    useCode: recordField(record, 'useCode'),
+    yearBuilt: recordField(record, 'yearBuilt'),
+  }
+}
@@ -0,0 +1,47 @@
+import crypto from 'crypto'
+import { logger } from './logger'
+
+export type BlockReason = 'rate_limit' | 'honeypot' | 'too_fast' | 'captcha'
+
+export interface BlockedAttempt {
+  id: string
+  at: string
+  reason: BlockReason
+  // Which rule tripped, e.g. "quote-per-ip"
+  rule?: string
+  detail?: string
+  ip?: string
+  email?: string
+  method: string
+  path: string
+  userAgent?: string
+}
+
+// Kept in memory: a flood must not turn into a flood of disk writes
+const MAX_ENTRIES = 1000
+
+const entries: BlockedAttempt[] = []
+const totals: Record<string, number> = {}
+
+export function recordBlockedAttempt(attempt: Omit<BlockedAttempt, 'id' | 'at'>): BlockedAttempt {
+  const entry: BlockedAttempt = { id: crypto.randomUUID(), at: new Date().toISOString(), ...attempt }
+  entries.push(entry)
+  if (entries.length > MAX_ENTRIES) entries.shift()
+  totals[entry.reason] = (totals[entry.reason] || 0) + 1
+
+  logger.warn('Blocked request', { method: entry.method, path: entry.path, ip: entry.ip, reason: entry.reason, rule: entry.rule })
+  return entry
+}
+
+// Newest first
+export function listBlockedAttempts(reason?: BlockReason, limit = 100): BlockedAttempt[] {
+  return entries
+    .filter(entry => !reason || entry.reason === reason)
+    .slice(-limit)
+    .reverse()
+}
+
+// Counts by reason since the process started, including entries no longer retained
+export function blockedAttemptTotals(): Record<string, number> {
+  return { ...totals }
+}
@@ -0,0 +1,272 @@
+import puppeteer, { Browser, Page } from 'puppeteer'
+import { logger } from './logger'
+import { getConfig } from '../config'
+import { ApiError, ServiceUnavailableError, isTimeoutError } from '../errors'
+
+// Thrown when no page is free within the wait timeout or the queue is full; answered as 503 with Retry-After
+export class PoolBusyError extends ServiceUnavailableError {
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message, 'SERVICE_BUSY', retryAfterSeconds)
+    this.name = 'PoolBusyError'
+  }
+}
+
+interface PooledPage {
+  page: Page
+  uses: number
+  broken: boolean
+}
+
+interface Waiter {
+  resolve: () => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+export interface BrowserPoolOptions {
+  maxConcurrency: number
+  maxQueue: number
+  queueTimeoutMs: number
+  maxPageUses: number
+}
+
+export interface BrowserPoolStats {
+  browserConnected: boolean
+  maxConcurrency: number
+  activePages: number
+  idlePages: number
+  queued: number
+  maxQueue: number
+  totalAcquired: number
+  totalRejected: number
+  totalTimedOut: number
+  pagesRecycled: number
+  browserLaunches: number
+  browserCrashes: number
+  lastLaunchAt: string | null
+  lastCrashAt: string | null
+}
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--disable-gpu',
+]
+
+/**
+ * One shared Chromium process with a bounded number of pages.
+ * Callers queue for a page; when the queue is full or the wait times out
+ * they get a PoolBusyError so the route can answer 503 with Retry-After.
+ */
+// Not-found and validation outcomes (4xx, e.g. no matching address) are only raised once the page
+// has loaded and been read, so it can be reused. Timeouts, navigation and protocol failures, and
+// upstream errors may leave it mid-load.
+const leavesPageUsable = (error: unknown) =>
+  error instanceof ApiError && error.status < 500 && !isTimeoutError(error)
+
+export class BrowserPool {
+  private browser: Browser | null = null
+  private launching: Promise<Browser> | null = null
+  private idle: PooledPage[] = []
+  private active = 0
+  private waiters: Waiter[] = []
+  private closing = false
+  private counters = {
+    totalAcquired: 0,
+    totalRejected: 0,
+    totalTimedOut: 0,
+    pagesRecycled: 0,
+    browserLaunches: 0,
+    browserCrashes: 0,
+    lastLaunchAt: null as string | null,
+    lastCrashAt: null as string | null,
+  }
+
+  constructor(private readonly options: BrowserPoolOptions) {}
+
+  // Run fn with a pooled page; the page is returned to the pool (or recycled) afterwards
+  async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+    await this.acquireSlot()
+    let pooled: PooledPage | null = null
+    try {
+      pooled = await this.checkoutPage()
+      return await fn(pooled.page)
+    } catch (error) {
+      if (pooled && !leavesPageUsable(error)) pooled.broken = true
+      throw error
+    } finally {
+      if (pooled) await this.releasePage(pooled)
+      this.releaseSlot()
+    }
+  }
+
+  stats(): BrowserPoolStats {
+    return {
+      browserConnected: !!this.browser?.connected,
+      maxConcurrency: this.options.maxConcurrency,
+      activePages: this.active,
+      idlePages: this.idle.length,
+      queued: this.waiters.length,
+      maxQueue: this.options.maxQueue,
+      ...this.counters,
+    }
+  }
+
+  // Check that Chromium can be started (or is already running)
+  async ensureBrowser(): Promise<void> {
+    await this.getBrowser()
+  }
+
+  async shutdown(): Promise<void> {
+    this.closing = true
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer)
+      waiter.reject(new PoolBusyError('Server is shutting down', 30))
+    }
+    const browser = this.browser || (this.launching ? await this.launching.catch(() => null) : null)
+    this.browser = null
+    this.idle = []
+    if (browser) await browser.close().catch(() => {})
+  }
+
+  private retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil(this.options.queueTimeoutMs / 1000))
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.closing) {
+      return Promise.reject(new PoolBusyError('Server is shutting down', 30))
+    }
+    if (this.active < this.options.maxConcurrency) {
+      this.active++
+      this.counters.totalAcquired++
+      return Promise.resolve()
+    }
+    if (this.waiters.length >= this.options.maxQueue) {
+      this.counters.totalRejected++
+      return Promise.reject(new PoolBusyError('Property lookup service is busy', this.retryAfterSeconds()))
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve: () => {
+          this.counters.totalAcquired++
+          resolve()
+        },
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(entry => entry !== waiter)
+          this.counters.totalTimedOut++
+          reject(new PoolBusyError('Timed out waiting for a property lookup slot', this.retryAfterSeconds()))
+        }, this.options.queueTimeoutMs),
+      }
+      this.waiters.push(waiter)
+    })
+  }
+
+  private releaseSlot() {
+    const next = this.waiters.shift()
+    if (next) {
+      // Hand the slot straight to the next caller; the active count is unchanged
+      clearTimeout(next.timer)
+      next.resolve()
+    } else {
+      this.active--
+    }
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.connected) return this.browser
+    if (!this.launching) {
+      this.launching = puppeteer.launch({ headless: true, args: LAUNCH_ARGS })
+        .then(browser => {
+          this.browser = browser
+          this.counters.browserLaunches++
+          this.counters.lastLaunchAt = new Date().toISOString()
+          browser.on('disconnected', () => this.handleDisconnect(browser))
+          return browser
+        })
+        .finally(() => {
+          this.launching = null
+        })
+    }
+    return this.launching
+  }
+
+  // Chromium exited or crashed; drop its pages so the next request relaunches it
+  private handleDisconnect(browser: Browser) {
+    if (this.browser !== browser) return
+    this.browser = null
+    this.idle = []
+    if (!this.closing) {
+      this.counters.browserCrashes++
+      this.counters.lastCrashAt = new Date().toISOString()
+      logger.error('Browser pool: Chromium disconnected unexpectedly; it will be relaunched on the next lookup')
+    }
+  }
+
+  private async checkoutPage(): Promise<PooledPage> {
+    const browser = await this.getBrowser()
+
+    while (this.idle.length > 0) {
+      const pooled = this.idle.pop() as PooledPage
+      if (!pooled.page.isClosed() && pooled.page.browser() === browser) {
+        pooled.uses++
+        return pooled
+      }
+    }
+
+    const page = await browser.newPage()
+    const pooled: PooledPage = { page, uses: 1, broken: false }
+    page.on('error', () => {
+      // The renderer for this page crashed
+      pooled.broken = true
+    })
+    return pooled
+  }
+
+  private async releasePage(pooled: PooledPage) {
+    const { page } = pooled
+    const reusable = !pooled.broken &&
+      !page.isClosed() &&
+      !!this.browser?.connected &&
+      page.browser() === this.browser &&
+      pooled.uses < this.options.maxPageUses &&
+      this.idle.length < this.options.maxConcurrency
+
+    if (reusable) {
+      try {
+        await page.goto('about:blank', { timeout: 5000 })
+        this.idle.push(pooled)
+        return
+      } catch {
+        // Fall through and recycle the page
+      }
+    }
+
+    this.counters.pagesRecycled++
+    await page.close().catch(() => {})
+  }
+}
+
+let sharedPool: BrowserPool | null = null
+
+// Pool used by the property scraper; sized from BROWSER_POOL_* environment variables
+export function getBrowserPool(): BrowserPool {
+  if (!sharedPool) {
+    const settings = getConfig().browserPool
+    sharedPool = new BrowserPool({
+      maxConcurrency: settings.maxPages,
+      maxQueue: settings.maxQueue,
+      queueTimeoutMs: settings.queueTimeoutMs,
+      maxPageUses: settings.maxPageUses,
+    })
+  }
+  return sharedPool
+}
+
+export async function shutdownBrowserPool(): Promise<void> {
+  if (sharedPool) await sharedPool.shutdown()
+}
@@ -0,0 +1,103 @@
+import { CaptchaConfig, getConfig } from '../config'
+
+export interface CaptchaResult {
+  success: boolean
+  // reCAPTCHA v3 only: 0 (bot) to 1 (human)
+  score?: number
+  error?: string
+}
+
+// Anything that can check a CAPTCHA token from the browser
+export interface CaptchaVerifier {
+  readonly name: string
+  verify(token: string, remoteIp?: string): Promise<CaptchaResult>
+}
+
+// Turnstile, reCAPTCHA and hCaptcha all share the same siteverify request and response shape
+async function siteVerify(url: string, secret: string, token: string, remoteIp?: string): Promise<any> {
+  const params = new URLSearchParams({ secret, response: token })
+  if (remoteIp) params.set('remoteip', remoteIp)
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params,
+    signal: AbortSignal.timeout(5000),
+  })
+  if (!response.ok) {
+    throw new Error(`CAPTCHA verification failed with HTTP ${response.status}`)
+  }
+  return response.json()
+}
+
+const errorCodes = (body: any) =>
+  Array.isArray(body?.['error-codes']) && body['error-codes'].length > 0 ? body['error-codes'].join(', ') : undefined
+
+export class TurnstileVerifier implements CaptchaVerifier {
+  readonly name = 'turnstile'
+
+  constructor(private readonly secret: string) {}
+
+  async verify(token: string, remoteIp?: string): Promise<CaptchaResult> {
+    const body = await siteVerify('https://challenges.cloudflare.com/turnstile/v0/siteverify', this.secret, token, remoteIp)
+    return { success: body.success === true, error: errorCodes(body) }
+  }
+}
+
+export class HCaptchaVerifier implements CaptchaVerifier {
+  readonly name = 'hcaptcha'
+
+  constructor(private readonly secret: string) {}
+
+  async verify(token: string, remoteIp?: string): Promise<CaptchaResult> {
+    const body = await siteVerify('https://api.hcaptcha.com/siteverify', this.secret, token, remoteIp)
+    return { success: body.success === true, error: errorCodes(body) }
+  }
+}
+
+// reCAPTCHA v3 always "succeeds"; the score decides
+export class RecaptchaVerifier implements CaptchaVerifier {
+  readonly name = 'recaptcha'
+
+  constructor(private readonly secret: string, private readonly minScore: number) {}
+
+  async verify(token: string, remoteIp?: string): Promise<CaptchaResult> {
+    const body = await siteVerify('https://www.google.com/recaptcha/api/siteverify', this.secret, token, remoteIp)
+    const score = typeof body.score === 'number' ? body.score : undefined
+    const passed = body.success === true && (score === undefined || score >= this.minScore)
+    return {
+      success: passed,
+      score,
+      error: errorCodes(body) || (passed ? undefined : `Score ${score} below ${this.minScore}`),
+    }
+  }
+}
+
+/**
+ * Pick the verifier from CAPTCHA_PROVIDER (turnstile, recaptcha, hcaptcha) and CAPTCHA_SECRET.
+ * Returns null when CAPTCHA is not configured, in which case tokens are not required.
+ */
+export function createCaptchaVerifier(settings: CaptchaConfig | undefined = getConfig().abuse.captcha): CaptchaVerifier | null {
+  if (!settings) return null
+
+  switch (settings.provider) {
+    case 'turnstile':
+      return new TurnstileVerifier(settings.secret)
+    case 'hcaptcha':
+      return new HCaptchaVerifier(settings.secret)
+    case 'recaptcha':
+      return new RecaptchaVerifier(settings.secret, settings.minScore)
+  }
+}
+
+// Created on first use
+let verifier: CaptchaVerifier | null | undefined
+
+export function getCaptchaVerifier(): CaptchaVerifier | null {
+  if (verifier === undefined) verifier = createCaptchaVerifier()
+  return verifier
+}
+
+export function setCaptchaVerifier(next: CaptchaVerifier | null) {
+  verifier = next
+}
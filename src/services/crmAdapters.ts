@@ -0,0 +1,131 @@
+import { WebhookFormat } from '../config'
+import { QuoteStatus } from '../types/quote'
+import { WebhookEvent, WebhookQuote } from '../types/webhook'
+
+/**
+ * Shape a webhook event for one kind of endpoint. Returning null means the
+ * endpoint has nothing to do with this event, and no delivery is queued.
+ */
+export type WebhookAdapter = (event: WebhookEvent) => object | null
+
+// HubSpot lead status and lifecycle stage for each pipeline stage
+const HUBSPOT_STAGES: Record<QuoteStatus, { leadStatus: string; lifecycleStage: string }> = {
+  new: { leadStatus: 'NEW', lifecycleStage: 'lead' },
+  contacted: { leadStatus: 'CONNECTED', lifecycleStage: 'lead' },
+  site_visit_scheduled: { leadStatus: 'IN_PROGRESS', lifecycleStage: 'opportunity' },
+  won: { leadStatus: 'OPEN_DEAL', lifecycleStage: 'customer' },
+  lost: { leadStatus: 'UNQUALIFIED', lifecycleStage: 'lead' },
+}
+
+// Verified records win over what the visitor typed
+function homeFacts(quote: WebhookQuote) {
+  const verified = quote.propertyLookup?.status === 'found' ? quote.propertyLookup.propertyInfo : undefined
+  return {
+    yearBuilt: verified?.yearBuilt ?? (quote.data.yearBuilt ? Number(quote.data.yearBuilt) : undefined),
+    squareFootage: quote.data.squareFootage ? Number(quote.data.squareFootage) : undefined,
+    verified: Boolean(verified),
+  }
+}
+
+/**
+ * Contact upsert keyed by email, in the shape of HubSpot's CRM v3 batch
+ * upsert input. Every event sends the full contact, so a missed delivery is
+ * repaired by the next one. Custom properties are prefixed with valor_.
+ */
+export function hubspotContact(event: WebhookEvent) {
+  const { quote } = event.data
+  const { data } = quote
+  const stage = HUBSPOT_STAGES[quote.status]
+  const home = homeFacts(quote)
+
+  return {
+    idProperty: 'email',
+    id: data.email,
+    properties: {
+      email: data.email,
+      firstname: data.firstName,
+      lastname: data.lastName,
+      phone: data.phone,
+      address: data.address,
+      city: data.city,
+      state: data.state,
+      zip: data.zipCode,
+      hs_lead_status: stage.leadStatus,
+      lifecyclestage: stage.lifecycleStage,
+      valor_quote_id: quote.id,
+      valor_quote_status: quote.status,
+      valor_quote_submitted_at: quote.createdAt,
+      valor_heating_source: data.heatingSource,
+      valor_installation_timeline: data.installationTimeline,
+      valor_ownership: data.ownership,
+      valor_estimated_cost: quote.estimate?.installedCost,
+      valor_estimated_rebate: quote.estimate?.rebate,
+      valor_estimated_annual_savings: quote.estimate?.annualSavings,
+      valor_system_tons: quote.estimate?.systemTons,
+      valor_year_built: home.yearBuilt,
+      valor_square_footage: home.squareFootage,
+      valor_property_verified: home.verified,
+    },
+  }
+}
+
+function jobberClient(quote: WebhookQuote) {
+  const { data } = quote
+  return {
+    firstName: data.firstName,
+    lastName: data.lastName,
+    emails: [{ description: 'MAIN', primary: true, address: data.email }],
+    phones: [{ description: 'MAIN', primary: true, number: data.phone }],
+    billingAddress: {
+      street1: data.address,
+      city: data.city,
+      province: data.state,
+      postalCode: data.zipCode,
+      country: 'US',
+    },
+  }
+}
+
+function jobberDetails(quote: WebhookQuote): string {
+  const { data, estimate } = quote
+  const home = homeFacts(quote)
+  return [
+    estimate && `Estimate: ${estimate.systemTons} ton system, $${estimate.installedCost} installed, $${estimate.rebate} rebate`,
+    data.heatingSource && `Current heating: ${data.heatingSource}`,
+    data.installationTimeline && `Timeline: ${data.installationTimeline}`,
+    home.yearBuilt && `Year built: ${home.yearBuilt}${home.verified ? ' (assessor records)' : ''}`,
+    home.squareFootage && `Square footage: ${home.squareFootage}`,
+    data.additionalNotes && `Notes from customer: ${data.additionalNotes}`,
+  ].filter(Boolean).join('\n')
+}
+
+/**
+ * Jobber-style client and work payloads: a new quote becomes a request, a won
+ * quote becomes a job, and a finished property lookup updates the request
+ * details. Other status changes have no Jobber counterpart and are skipped.
+ */
+export function jobberPayload(event: WebhookEvent): object | null {
+  const { quote, statusChange } = event.data
+  const title = `Heat pump installation - ${quote.data.address}, ${quote.data.city}`
+
+  switch (event.type) {
+    case 'quote.created':
+      return { action: 'request.create', externalId: quote.id, client: jobberClient(quote), request: { title, details: jobberDetails(quote) } }
+    case 'property.lookup_completed':
+      return { action: 'request.update', externalId: quote.id, request: { title, details: jobberDetails(quote) } }
+    case 'quote.status_changed':
+      if (statusChange?.to !== 'won') return null
+      return {
+        action: 'job.create',
+        externalId: quote.id,
+        client: jobberClient(quote),
+        job: { title, instructions: jobberDetails(quote), total: quote.estimate?.installedCost },
+      }
+  }
+}
+
+export const WEBHOOK_ADAPTERS: Record<WebhookFormat, WebhookAdapter> = {
+  raw: event => event,
+  hubspot: hubspotContact,
+  jobber: jobberPayload,
+}
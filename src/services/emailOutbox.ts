@@ -0,0 +1,229 @@
+import crypto from 'crypto'
+import path from 'path'
+import { EventEmitter } from 'events'
+import { JsonStore } from './jsonStore'
+import { EmailAttachment, EmailMessage, EmailTransport, createEmailTransport } from './emailTransport'
+import { logger } from './logger'
+import { getConfig } from '../config'
+import { emailSends } from './metrics'
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'dead'
+
+export interface OutboxAttempt {
+  attemptedAt: string
+  transport: string
+  success: boolean
+  error?: string
+  providerId?: string
+}
+
+// An attachment built when the message is sent instead of stored in the outbox, e.g. a quote's PDF proposal
+export interface AttachmentReference {
+  type: string
+  id: string
+}
+
+export type AttachmentResolver = (id: string) => Promise<EmailAttachment>
+
+export interface OutboxMessage {
+  id: string
+  createdAt: string
+  updatedAt: string
+  status: OutboxStatus
+  // What the message is for, e.g. "admin-quote", plus the record it belongs to
+  kind: string
+  quoteId?: string
+  message: EmailMessage
+  attachmentRefs?: AttachmentReference[]
+  attempts: OutboxAttempt[]
+  nextAttemptAt: string
+  // Set when an admin re-sends a dead message; only later failures count toward the limit
+  resentAt?: string
+}
+
+const WORKER_INTERVAL_MS = 15000
+
+const store = new JsonStore<OutboxMessage>(path.join(getConfig().dataDir, 'outbox.json'))
+
+// Emits "sent", "retry" and "dead" with the updated OutboxMessage
+export const outboxEvents = new EventEmitter()
+
+// Created on first use so environment loaded by dotenv at startup is picked up
+let transport: EmailTransport | null | undefined
+let workerTimer: NodeJS.Timeout | null = null
+const inFlight = new Set<string>()
+const attachmentResolvers = new Map<string, AttachmentResolver>()
+
+export function getEmailTransport(): EmailTransport | null {
+  if (transport === undefined) {
+    transport = createEmailTransport()
+  }
+  return transport
+}
+
+// Swap the transport, e.g. for a local stand-in
+export function setEmailTransport(next: EmailTransport | null) {
+  transport = next
+}
+
+// Build attachments of one type from their reference at send time
+export function registerAttachmentResolver(type: string, resolver: AttachmentResolver) {
+  attachmentResolvers.set(type, resolver)
+}
+
+// The stored message plus its referenced attachments; a failure here counts as a failed attempt
+async function resolveMessage(record: OutboxMessage): Promise<EmailMessage> {
+  if (!record.attachmentRefs?.length) return record.message
+
+  const resolved = await Promise.all(record.attachmentRefs.map(ref => {
+    const resolver = attachmentResolvers.get(ref.type)
+    if (!resolver) throw new Error(`No attachment resolver for ${ref.type}`)
+    return resolver(ref.id)
+  }))
+  return { ...record.message, attachments: [...(record.message.attachments || []), ...resolved] }
+}
+
+// 30s, 1m, 2m, 4m, ... with jitter so retries from one burst spread out
+function backoffDelay(attemptCount: number): number {
+  const { backoffMs } = getConfig().email
+  const delay = backoffMs * Math.pow(2, Math.max(0, attemptCount - 1))
+  return delay + Math.floor(Math.random() * backoffMs * 0.2)
+}
+
+export async function enqueueEmail(kind: string, message: EmailMessage, quoteId?: string, attachmentRefs?: AttachmentReference[]): Promise<OutboxMessage> {
+  const now = new Date().toISOString()
+  return store.insert({
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    status: 'pending',
+    kind,
+    quoteId,
+    message,
+    attachmentRefs,
+    attempts: [],
+    nextAttemptAt: now,
+  })
+}
+
+/**
+ * Make one delivery attempt for a queued message and record the outcome.
+ * Failed attempts are rescheduled with exponential backoff until MAX_ATTEMPTS,
+ * after which the message moves to the dead-letter list.
+ */
+export async function deliverEmail(id: string): Promise<OutboxMessage | undefined> {
+  const activeTransport = getEmailTransport()
+  if (!activeTransport || inFlight.has(id)) return store.get(id)
+
+  // Claim the message before the first await so the worker and a request can't both send it
+  inFlight.add(id)
+  try {
+    const current = await store.get(id)
+    if (!current || current.status !== 'pending') return current
+
+    await store.update(id, record => ({ ...record, status: 'sending' }))
+
+    let attempt: OutboxAttempt
+    try {
+      const result = await activeTransport.send(await resolveMessage(current))
+      attempt = { attemptedAt: new Date().toISOString(), transport: activeTransport.name, success: true, providerId: result.providerId }
+    } catch (error: any) {
+      attempt = { attemptedAt: new Date().toISOString(), transport: activeTransport.name, success: false, error: error?.message || String(error) }
+    }
+
+    const updated = await store.update(id, record => {
+      const attempts = [...record.attempts, attempt]
+      const failedAttempts = attempts.filter(entry =>
+        !entry.success && (!record.resentAt || entry.attemptedAt >= record.resentAt)
+      ).length
+      const status: OutboxStatus = attempt.success ? 'sent' : failedAttempts >= getConfig().email.maxAttempts ? 'dead' : 'pending'
+      return {
+        ...record,
+        status,
+        attempts,
+        updatedAt: attempt.attemptedAt,
+        nextAttemptAt: status === 'pending'
+          ? new Date(Date.now() + backoffDelay(failedAttempts)).toISOString()
+          : record.nextAttemptAt,
+      }
+    })
+
+    if (updated) {
+      emailSends.inc({
+        kind: updated.kind,
+        transport: attempt.transport,
+        outcome: updated.status === 'pending' ? 'retry' : updated.status,
+      })
+      if (updated.status === 'sent') {
+        logger.info('Email sent', { kind: updated.kind, emailId: updated.id, quoteId: updated.quoteId, transport: attempt.transport })
+        outboxEvents.emit('sent', updated)
+      } else if (updated.status === 'dead') {
+        logger.error('Email moved to dead letters', { kind: updated.kind, emailId: updated.id, quoteId: updated.quoteId, error: attempt.error })
+        outboxEvents.emit('dead', updated)
+      } else {
+        logger.warn('Email delivery failed; will retry', { kind: updated.kind, emailId: updated.id, quoteId: updated.quoteId, retryAt: updated.nextAttemptAt, error: attempt.error })
+        outboxEvents.emit('retry', updated)
+      }
+    }
+    return updated
+  } finally {
+    inFlight.delete(id)
+  }
+}
+
+// Deliver every pending message whose retry time has come
+export async function processOutbox(): Promise<void> {
+  if (!getEmailTransport()) return
+  const now = new Date().toISOString()
+  const due = (await store.all()).filter(record =>
+    // Messages left in "sending" by a crash are retried too
+    (record.status === 'pending' || (record.status === 'sending' && !inFlight.has(record.id))) &&
+    record.nextAttemptAt <= now
+  )
+
+  for (const record of due) {
+    if (record.status === 'sending') {
+      await store.update(record.id, item => ({ ...item, status: 'pending' }))
+    }
+    await deliverEmail(record.id).catch(error => logger.error('Outbox delivery error', { emailId: record.id, error }))
+  }
+}
+
+export function startOutboxWorker() {
+  if (workerTimer) return
+  workerTimer = setInterval(() => {
+    processOutbox().catch(error => logger.error('Outbox worker error', { error }))
+  }, WORKER_INTERVAL_MS)
+  workerTimer.unref()
+}
+
+export function stopOutboxWorker() {
+  if (workerTimer) {
+    clearInterval(workerTimer)
+    workerTimer = null
+  }
+}
+
+export async function listOutbox(status?: OutboxStatus): Promise<OutboxMessage[]> {
+  const records = await store.all()
+  return records
+    .filter(record => !status || record.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getOutboxMessage(id: string): Promise<OutboxMessage | undefined> {
+  return store.get(id)
+}
+
+// Move a dead-lettered message back into the queue and try it right away
+export async function resendEmail(id: string): Promise<OutboxMessage | undefined> {
+  const now = new Date().toISOString()
+  const requeued = await store.update(id, record => ({
+    ...record,
+    status: 'pending',
+    nextAttemptAt: now,
+    resentAt: now,
+  }))
+  if (!requeued) return undefined
+  return deliverEmail(id)
+}
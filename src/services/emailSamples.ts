@@ -0,0 +1,82 @@
+import { estimateQuote } from './pricing'
+import { normalizePropertyInfo } from './propertyNormalizer'
+import { QuoteData } from '../types/quote'
+import { QuoteEmailContext } from './emailTemplates'
+
+// Realistic submission used to preview email templates
+export const sampleQuoteData: QuoteData = {
+  firstName: 'Jordan',
+  lastName: 'Sample',
+  email: 'jordan.sample@example.com',
+  phone: '+15085550142',
+  address: '42 Maple Street',
+  city: 'Worcester',
+  state: 'MA',
+  zipCode: '01609',
+  propertyInfo: normalizePropertyInfo({
+    owner: 'SAMPLE JORDAN',
+    ownerAddress: '42 MAPLE ST, WORCESTER MA 01609',
+    buildingValue: '$298,400',
+    landValue: '$96,300',
+    totalValue: '$394,700',
+    assessmentYear: 'FY 2025',
+    lotSize: '0.18 Acres',
+    lastSalePrice: '$255,000',
+    lastSaleDate: '20170614',
+    useCode: '101',
+    yearBuilt: '1928',
+  }),
+  propertyType: 'single_family',
+  yearBuilt: '1928',
+  squareFootage: '1850',
+  floorsAboveGround: '2',
+  bedrooms: '3',
+  bathrooms: '1.5',
+  hasAttic: 'yes',
+  basementType: 'unfinished',
+  additionalNotes: 'Oil boiler is 25 years old.',
+  ownership: 'own',
+  heatingSource: 'oil',
+  installationTimeline: '1_3_months',
+  electricityProvider: 'National Grid',
+  naturalGasProvider: '',
+}
+
+export function sampleQuoteEmailContext(): QuoteEmailContext {
+  const estimate = estimateQuote(sampleQuoteData)
+  return {
+    quote: {
+      ...sampleQuoteData,
+      quote: { totalPrice: estimate.installedCost, estimatedSavings: estimate.annualSavings },
+    },
+    estimate,
+    quoteId: '00000000-0000-4000-8000-000000000000',
+    propertyLookup: {
+      status: 'found',
+      startedAt: '2025-01-15T14:02:11.000Z',
+      completedAt: '2025-01-15T14:02:29.000Z',
+      provider: 'mass-property-info',
+      request: { city: 'Worcester', streetName: 'Maple Street', addressNumber: '42' },
+      matched: {
+        town: 'WORCESTER',
+        street: 'MAPLE ST',
+        addressNumber: '42',
+        scores: { town: 1, street: 1, addressNumber: 1 },
+      },
+      propertyInfo: sampleQuoteData.propertyInfo,
+    },
+    appointment: {
+      date: 'Tuesday, January 21',
+      time: '9:00 AM - 10:30 AM EST',
+      technician: 'Central MA assessment team',
+      rescheduled: false,
+      manageUrl: 'https://www.valorhvacma.com/appointments/00000000-0000-4000-8000-000000000001?token=sample',
+    },
+    proposal: {
+      number: 'VHC-20250115-000000',
+      issuedDate: 'January 15, 2025',
+      expiresDate: 'February 14, 2025',
+      expired: false,
+    },
+  }
+}
@@ -0,0 +1,221 @@
+import fs from 'fs'
+import path from 'path'
+import Handlebars from 'handlebars'
+import { QuoteData, QuoteEstimate, QuotePropertyLookup } from '../types/quote'
+import { FinancingEstimate } from './pricing'
+import { getConfig } from '../config'
+
+// Templates live outside src/ so marketing can edit copy without touching route code
+
+export const EMAIL_TEMPLATES = [
+  'admin-quote',
+  'customer-quote',
+  'admin-property-addendum',
+  'customer-appointment',
+  'customer-appointment-cancelled',
+] as const
+export type EmailTemplateName = typeof EMAIL_TEMPLATES[number]
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+// Site visit details, already formatted in the technician calendar's time zone
+export interface AppointmentEmailDetails {
+  date: string
+  time: string
+  technician: string
+  rescheduled: boolean
+  // Link to reschedule or cancel; only when FRONTEND_URL is set
+  manageUrl?: string
+  reason?: string
+}
+
+// Reference details printed on the PDF proposal
+export interface ProposalDetails {
+  number: string
+  issuedDate: string
+  expiresDate: string
+  expired: boolean
+  financing?: FinancingEstimate
+}
+
+export interface QuoteEmailContext {
+  quote: QuoteData
+  estimate?: QuoteEstimate
+  quoteId?: string
+  submittedAt?: string
+  priceMismatch?: boolean
+  clientQuote?: QuoteData['quote']
+  propertyLookup?: QuotePropertyLookup
+  appointment?: AppointmentEmailDetails
+  proposal?: ProposalDetails
+}
+
+interface LabeledValue {
+  label: string
+  value: string
+}
+
+const SUBJECT_KEYS: Record<EmailTemplateName, string> = {
+  'admin-quote': 'adminQuote',
+  'customer-quote': 'customerQuote',
+  'admin-property-addendum': 'adminPropertyAddendum',
+  'customer-appointment': 'customerAppointment',
+  'customer-appointment-cancelled': 'customerAppointmentCancelled',
+}
+
+const engine = Handlebars.create()
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === ''
+
+engine.registerHelper('default', (value: unknown, fallback: unknown) =>
+  isBlank(value) ? (typeof fallback === 'string' ? fallback : 'N/A') : value
+)
+engine.registerHelper('currency', (value: unknown) =>
+  isBlank(value) || isNaN(Number(value)) ? 'N/A' : `$${Number(value).toLocaleString('en-US')}`
+)
+engine.registerHelper('number', (value: unknown) =>
+  isBlank(value) || isNaN(Number(value)) ? 'N/A' : Number(value).toLocaleString('en-US')
+)
+engine.registerHelper('money', (value: unknown) =>
+  isBlank(value) || isNaN(Number(value)) ? 'N/A' : Number(value).toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+)
+engine.registerHelper('join', (values: unknown, separator: unknown) =>
+  Array.isArray(values) ? values.join(typeof separator === 'string' ? separator : ', ') : ''
+)
+
+// Recompile on every render in development so template edits show up in previews immediately
+const compiled = new Map<string, HandlebarsTemplateDelegate>()
+let brandCopy: any = null
+let layoutRegistered = false
+
+const cacheTemplates = () => getConfig().email.cacheTemplates
+
+function readTemplate(fileName: string): string {
+  return fs.readFileSync(path.join(getConfig().email.templatesDir, fileName), 'utf8')
+}
+
+export function loadBrandCopy(): any {
+  if (!brandCopy || !cacheTemplates()) {
+    brandCopy = JSON.parse(readTemplate('copy.json'))
+  }
+  return brandCopy
+}
+
+function registerLayout() {
+  if (!layoutRegistered || !cacheTemplates()) {
+    engine.registerPartial('layout', readTemplate('layout.html.hbs'))
+    layoutRegistered = true
+  }
+}
+
+function getTemplate(fileName: string, noEscape = false): HandlebarsTemplateDelegate {
+  const key = `${fileName}:${noEscape}`
+  let template = cacheTemplates() ? compiled.get(key) : undefined
+  if (!template) {
+    template = engine.compile(readTemplate(fileName), { noEscape })
+    compiled.set(key, template)
+  }
+  return template
+}
+
+function compileSubject(source: string): HandlebarsTemplateDelegate {
+  const key = `subject:${source}`
+  let template = compiled.get(key)
+  if (!template) {
+    template = engine.compile(source, { noEscape: true })
+    compiled.set(key, template)
+  }
+  return template
+}
+
+const formatDollars = (value?: number) => value === undefined ? undefined : `$${value.toLocaleString('en-US')}`
+
+function toLabeledValues(entries: Array<[string, unknown]>): LabeledValue[] {
+  return entries.map(([label, value]) => ({ label, value: isBlank(value) ? 'N/A' : String(value) }))
+}
+
+// Where the property records in an email came from, for the admin's benefit
+function describePropertySource(lookup: QuotePropertyLookup | undefined, hasClientData: boolean): string {
+  switch (lookup?.status) {
+    case 'found':
+      return `Verified from ${lookup.provider} records${lookup.matched ? ` for ${lookup.matched.addressNumber} ${lookup.matched.street}, ${lookup.matched.town}` : ''}`
+    case 'pending':
+      return 'Lookup still running; an update will follow when it finishes'
+    case 'not_found':
+    case 'failed':
+    case 'skipped':
+      return `Could not verify the address (${lookup.error || lookup.status})${hasClientData ? '; showing what the website submitted' : ''}`
+    default:
+      return hasClientData ? 'Submitted by the website; not verified' : ''
+  }
+}
+
+// Shape the raw quote into the variables the templates use
+function buildTemplateData(context: QuoteEmailContext) {
+  const { quote, propertyLookup } = context
+  const property = propertyLookup?.status === 'found' ? propertyLookup.propertyInfo : quote.propertyInfo
+  return {
+    ...context,
+    propertySource: describePropertySource(propertyLookup, !!quote.propertyInfo),
+    brand: loadBrandCopy(),
+    submittedAt: context.submittedAt || new Date().toLocaleString('en-US', { timeZone: 'America/New_York' }),
+    homeDetails: toLabeledValues([
+      ['Property Type', quote.propertyType],
+      ['Year Built', quote.yearBuilt],
+      ['Square Footage', quote.squareFootage],
+      ['Floors Above Ground', quote.floorsAboveGround],
+      ['Bedrooms', quote.bedrooms],
+      ['Bathrooms', quote.bathrooms],
+      ['Has Attic', quote.hasAttic],
+      ['Basement Type', quote.basementType],
+      ['Additional Notes', quote.additionalNotes || 'None'],
+    ]),
+    property: property
+      ? toLabeledValues([
+        ['Year Built', property.yearBuilt],
+        ['Total Assessed Value', formatDollars(property.totalValue)],
+        ['Lot Size', property.lotSize && `${property.lotSize.acres} acres (${property.lotSize.squareFeet.toLocaleString('en-US')} sq ft)`],
+        ['Assessment Year', property.assessmentYear && `FY ${property.assessmentYear}`],
+        ['Last Sale Price', formatDollars(property.lastSalePrice)],
+        ['Last Sale Date', property.lastSaleDate],
+        ['Owner', property.owner],
+        ['Owner Address', property.ownerAddress],
+        ['Building Value', formatDollars(property.buildingValue)],
+        ['Land Value', formatDollars(property.landValue)],
+        ['Use', property.useCode && [property.useCode, property.useLabel].filter(Boolean).join(' - ')],
+        ['Insulation Estimate', property.hints?.insulationNote],
+      ])
+      : null,
+  }
+}
+
+// Render the subject, HTML body (wrapped in the branded layout) and plain-text fallback
+export function renderEmail(name: EmailTemplateName, context: QuoteEmailContext): RenderedEmail {
+  registerLayout()
+
+  const data = buildTemplateData(context)
+  const subject = compileSubject(data.brand.subjects[SUBJECT_KEYS[name]])(data).trim()
+
+  return {
+    subject,
+    html: getTemplate(`${name}.html.hbs`)({ ...data, subject }),
+    text: getTemplate(`${name}.txt.hbs`, true)(data).replace(/\n{3,}/g, '\n\n').trim(),
+  }
+}
+
+// The printable proposal uses the same helpers, brand copy and home details as the emails
+export function renderProposalHtml(context: QuoteEmailContext & { proposal: ProposalDetails }): string {
+  return getTemplate('proposal.html.hbs')(buildTemplateData(context))
+}
+
+export type SmsTextName = 'customerQuote' | 'oncallAlert' | 'optOut' | 'optIn' | 'help'
+
+// Text message copy lives next to the email copy in copy.json, under "sms"
+export function renderSmsText(name: SmsTextName, context: Record<string, unknown> = {}): string {
+  const brand = loadBrandCopy()
+  return compileSubject(brand.sms[name])({ ...context, brand }).replace(/\s+/g, ' ').trim()
+}
@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import nodemailer from 'nodemailer'
+import { Resend } from 'resend'
+import { EmailConfig, SmtpConfig, getConfig } from '../config'
+import { logger } from './logger'
+
+export interface EmailAttachment {
+  filename: string
+  contentType: string
+  // Base64 so attachments survive a round trip through the JSON outbox
+  contentBase64: string
+}
+
+export interface EmailMessage {
+  from: string
+  to: string
+  subject: string
+  html?: string
+  text: string
+  attachments?: EmailAttachment[]
+}
+
+export interface SendResult {
+  providerId?: string
+}
+
+// Anything that can deliver an email; failures are reported by throwing
+export interface EmailTransport {
+  readonly name: string
+  send(message: EmailMessage): Promise<SendResult>
+}
+
+// Resend rejects senders on free-mail domains, so fall back to its shared test sender
+const UNVERIFIED_SENDER_DOMAINS = ['@gmail.com', '@yahoo.com', '@outlook.com']
+
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend'
+  private client: Resend
+
+  constructor(apiKey: string) {
+    this.client = new Resend(apiKey)
+  }
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    const from = UNVERIFIED_SENDER_DOMAINS.some(domain => message.from.includes(domain))
+      ? 'onboarding@resend.dev'
+      : message.from
+
+    const { data, error } = await this.client.emails.send({
+      from,
+      // Several admin recipients arrive as one comma-separated string; Resend wants a list
+      to: message.to.split(',').map(address => address.trim()),
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      attachments: message.attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.contentBase64, 'base64'),
+        contentType: attachment.contentType,
+      })),
+    })
+
+    if (error) {
+      throw new Error(error.message || 'Resend rejected the message')
+    }
+    return { providerId: data?.id }
+  }
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp'
+  private transporter: nodemailer.Transporter
+
+  constructor(options: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    })
+  }
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      attachments: message.attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.contentBase64, 'base64'),
+        contentType: attachment.contentType,
+      })),
+    })
+    return { providerId: info.messageId }
+  }
+}
+
+// Offline stand-in: writes each message to a JSON file instead of sending it
+export class FileTransport implements EmailTransport {
+  readonly name = 'file'
+  private sequence = 0
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    await fs.mkdir(this.directory, { recursive: true })
+    const providerId = `file-${Date.now()}-${++this.sequence}`
+    await fs.writeFile(path.join(this.directory, `${providerId}.json`), JSON.stringify(message, null, 2), 'utf8')
+    return { providerId }
+  }
+}
+
+// Offline stand-in: prints a summary of each message
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console'
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    logger.info('Email (console transport)', { to: message.to, attachments: message.attachments?.length || 0 })
+    return { providerId: `console-${Date.now()}` }
+  }
+}
+
+/**
+ * Build the transport chosen by EMAIL_TRANSPORT (resend, smtp, file, console).
+ * Returns null for "none"; the config module has already checked the required settings.
+ */
+export function createEmailTransport(settings: EmailConfig = getConfig().email): EmailTransport | null {
+  switch (settings.transport) {
+    case 'resend':
+      return settings.resendApiKey ? new ResendTransport(settings.resendApiKey) : null
+    case 'smtp':
+      return settings.smtp ? new SmtpTransport(settings.smtp) : null
+    case 'file':
+      return new FileTransport(settings.fileDir)
+    case 'console':
+      return new ConsoleTransport()
+    case 'none':
+      return null
+  }
+}
@@ -0,0 +1,220 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getEmailTransport, listOutbox } from './emailOutbox'
+import { getBrowserPool } from './browserPool'
+import { getPropertyProviders, providerActivity } from './propertyProvider'
+import { listWebhookDeliveries } from './webhooks'
+import { getConfig } from '../config'
+
+export type HealthStatus = 'ok' | 'degraded' | 'down'
+
+export interface HealthCheckResult {
+  name: string
+  status: HealthStatus
+  // A critical check that is down makes the whole server not ready
+  critical: boolean
+  latencyMs: number
+  detail?: string
+  error?: string
+}
+
+export interface ReadinessReport {
+  status: HealthStatus
+  timestamp: string
+  uptimeSeconds: number
+  checks: HealthCheckResult[]
+}
+
+interface CheckOutcome {
+  status: HealthStatus
+  detail?: string
+}
+
+interface HealthCheck {
+  name: string
+  critical: boolean
+  timeoutMs: number
+  run(): Promise<CheckOutcome>
+}
+
+// Set once shutdown starts so load balancers stop sending traffic before the server closes
+let shuttingDown = false
+
+export function markShuttingDown() {
+  shuttingDown = true
+}
+
+// Write, read back and remove a probe file next to the JSON stores
+async function checkStorage(): Promise<CheckOutcome> {
+  const { dataDir } = getConfig()
+  await fs.mkdir(dataDir, { recursive: true })
+  const probePath = path.join(dataDir, `.health-${process.pid}.tmp`)
+  const stamp = new Date().toISOString()
+  try {
+    await fs.writeFile(probePath, stamp, 'utf8')
+    if ((await fs.readFile(probePath, 'utf8')) !== stamp) {
+      return { status: 'down', detail: `Data directory ${dataDir} did not read back what was written` }
+    }
+  } finally {
+    await fs.unlink(probePath).catch(() => {})
+  }
+  return { status: 'ok', detail: `Data directory ${dataDir} is writable` }
+}
+
+// Quotes are still saved without email, but nobody hears about them
+async function checkEmail(): Promise<CheckOutcome> {
+  const transport = getEmailTransport()
+  if (!transport) {
+    return { status: 'down', detail: 'Email is turned off (EMAIL_TRANSPORT=none)' }
+  }
+
+  const messages = await listOutbox()
+  const dead = messages.filter(message => message.status === 'dead').length
+  const stuckBefore = new Date(Date.now() - getConfig().health.outboxStuckMinutes * 60 * 1000).toISOString()
+  const stuck = messages.filter(message => message.status === 'pending' && message.createdAt < stuckBefore).length
+  if (dead > 0 || stuck > 0) {
+    return { status: 'degraded', detail: `Transport ${transport.name}; ${dead} dead-lettered and ${stuck} long-pending email(s)` }
+  }
+  return { status: 'ok', detail: `Transport ${transport.name}` }
+}
+
+// Leads still reach email when a CRM endpoint is failing, so this only degrades
+async function checkWebhooks(): Promise<CheckOutcome> {
+  const { endpoints } = getConfig().webhooks
+  if (endpoints.length === 0) return { status: 'ok', detail: 'No webhook endpoints configured' }
+
+  const dead = await listWebhookDeliveries({ status: 'dead' })
+  if (dead.length > 0) {
+    const failing = Array.from(new Set(dead.map(delivery => delivery.endpoint))).join(', ')
+    return { status: 'degraded', detail: `${dead.length} dead webhook deliveries (${failing})` }
+  }
+  return { status: 'ok', detail: `${endpoints.length} endpoint(s): ${endpoints.map(endpoint => endpoint.name).join(', ')}` }
+}
+
+// A failed launch is tried again after this long; a successful one is never repeated
+const LAUNCH_PROBE_RETRY_MS = 60 * 1000
+
+let launchProbe: { at: number; error?: string } | null = null
+
+// Start Chromium once to prove it can run here; later probes reuse the answer
+async function probeLaunch(): Promise<string | undefined> {
+  if (launchProbe && (!launchProbe.error || Date.now() - launchProbe.at < LAUNCH_PROBE_RETRY_MS)) {
+    return launchProbe.error
+  }
+  try {
+    await getBrowserPool().ensureBrowser()
+    launchProbe = { at: Date.now() }
+  } catch (error: any) {
+    launchProbe = { at: Date.now(), error: String(error?.message || error).split('\n')[0] }
+  }
+  return launchProbe.error
+}
+
+/**
+ * Only matters when the scraper is in the provider chain. Until the pool has
+ * started a browser, Chromium is launched once to prove it can run; after
+ * that the pool's own state is reported. Chromium that can't start is down
+ * when the scraper is the only provider, otherwise degraded since lookups
+ * fall through to the others. A crash that hasn't recovered, or a full
+ * queue, is degraded.
+ */
+async function checkBrowser(): Promise<CheckOutcome> {
+  const providers = getPropertyProviders()
+  if (!providers.some(provider => provider.name === 'mass-property-info')) {
+    return { status: 'ok', detail: 'Scraper is not in PROPERTY_PROVIDERS' }
+  }
+
+  const pool = getBrowserPool()
+  if (pool.stats().browserLaunches === 0) {
+    const launchError = await probeLaunch()
+    if (launchError) {
+      return { status: providers.length === 1 ? 'down' : 'degraded', detail: `Chromium could not be started: ${launchError}` }
+    }
+  }
+
+  const stats = pool.stats()
+  const usage = `${stats.activePages}/${stats.maxConcurrency} pages active, ${stats.queued} queued`
+  const crashedSinceLaunch = !!stats.lastCrashAt && (!stats.lastLaunchAt || stats.lastCrashAt >= stats.lastLaunchAt)
+  if (!stats.browserConnected && crashedSinceLaunch) {
+    return { status: 'degraded', detail: `Chromium crashed at ${stats.lastCrashAt} and has not been relaunched; ${usage}` }
+  }
+  if (stats.queued >= stats.maxQueue) {
+    return { status: 'degraded', detail: `Pool saturated: ${usage}` }
+  }
+  const browser = stats.browserConnected ? `Chromium running since ${stats.lastLaunchAt}` : `Chromium closed, last launched ${stats.lastLaunchAt}`
+  return { status: 'ok', detail: `${browser}; ${usage}` }
+}
+
+// Degraded when every provider that has been used lately is failing and none has succeeded recently
+async function checkPropertyLookups(): Promise<CheckOutcome> {
+  const staleMs = getConfig().health.lookupStaleHours * 60 * 60 * 1000
+  const entries = Object.entries(providerActivity())
+  if (entries.length === 0) return { status: 'ok', detail: 'No property lookups since startup' }
+
+  const lastSuccess = entries
+    .map(([name, entry]) => ({ name, at: entry.lastSuccessAt }))
+    .filter(entry => entry.at)
+    .sort((a, b) => b.at!.localeCompare(a.at!))[0]
+  const failing = entries.filter(([, entry]) => entry.lastFailureAt && (!entry.lastSuccessAt || entry.lastFailureAt > entry.lastSuccessAt))
+
+  const summary = [
+    lastSuccess ? `last success ${lastSuccess.at} (${lastSuccess.name})` : 'no successful lookup since startup',
+    ...failing.map(([name, entry]) => `${name} failing since ${entry.lastFailureAt}: ${entry.lastError}`),
+  ].join('; ')
+
+  const recentSuccess = lastSuccess && Date.now() - Date.parse(lastSuccess.at!) < staleMs
+  return { status: failing.length > 0 && !recentSuccess ? 'degraded' : 'ok', detail: summary }
+}
+
+const CHECKS: HealthCheck[] = [
+  { name: 'storage', critical: true, timeoutMs: 5000, run: checkStorage },
+  { name: 'email', critical: false, timeoutMs: 5000, run: checkEmail },
+  { name: 'webhooks', critical: false, timeoutMs: 5000, run: checkWebhooks },
+  { name: 'browser', critical: true, timeoutMs: 30000, run: checkBrowser },
+  { name: 'propertyLookups', critical: false, timeoutMs: 1000, run: checkPropertyLookups },
+]
+
+async function runCheck(check: HealthCheck): Promise<HealthCheckResult> {
+  const started = Date.now()
+  let timer: NodeJS.Timeout | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${check.timeoutMs}ms`)), check.timeoutMs)
+  })
+
+  try {
+    const outcome = await Promise.race([check.run(), timeout])
+    return { name: check.name, critical: check.critical, latencyMs: Date.now() - started, ...outcome }
+  } catch (error: any) {
+    return {
+      name: check.name,
+      status: 'down',
+      critical: check.critical,
+      latencyMs: Date.now() - started,
+      error: error?.message || String(error),
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Run every dependency check in parallel. The server is "down" when a
+ * critical check fails or it is shutting down, "degraded" when anything else
+ * is not ok, and "ok" otherwise.
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const checks = await Promise.all(CHECKS.map(runCheck))
+
+  let status: HealthStatus = 'ok'
+  if (shuttingDown || checks.some(check => check.critical && check.status === 'down')) status = 'down'
+  else if (checks.some(check => check.status !== 'ok')) status = 'degraded'
+
+  return {
+    status,
+    timestamp: new Date().toISOString(),
+    uptimeSeconds: Math.round(process.uptime()),
+    checks: shuttingDown
+      ? [...checks, { name: 'shutdown', status: 'down', critical: true, latencyMs: 0, detail: 'Server is shutting down' }]
+      : checks,
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for site-visit invites. Only the
+ * properties calendar apps need to add, update and cancel a single event.
+ */
+
+export interface CalendarInvite {
+  // Stable across updates so calendar apps replace the earlier invite
+  uid: string
+  sequence: number
+  // REQUEST adds or updates the event; CANCEL removes it
+  method: 'REQUEST' | 'CANCEL'
+  start: Date
+  end: Date
+  summary: string
+  description: string
+  location: string
+  organizer: { name: string; email: string }
+  attendee: { name: string; email: string }
+}
+
+// 20250115T140000Z
+const formatInstant = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8')
+  if (bytes.length <= 75) return line
+
+  const chunks: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      chunks.push(current)
+      current = ''
+    }
+    current += char
+  }
+  chunks.push(current)
+  return chunks.join('\r\n ')
+}
+
+export function renderInvite(invite: CalendarInvite): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Valor Heating & Cooling//Site Visits//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${invite.method}`,
+    'BEGIN:VEVENT',
+    `UID:${invite.uid}`,
+    `SEQUENCE:${invite.sequence}`,
+    `DTSTAMP:${formatInstant(new Date())}`,
+    `DTSTART:${formatInstant(invite.start)}`,
+    `DTEND:${formatInstant(invite.end)}`,
+    `SUMMARY:${escapeText(invite.summary)}`,
+    `DESCRIPTION:${escapeText(invite.description)}`,
+    `LOCATION:${escapeText(invite.location)}`,
+    `ORGANIZER;CN=${escapeText(invite.organizer.name)}:mailto:${invite.organizer.email}`,
+    `ATTENDEE;CN=${escapeText(invite.attendee.name)};ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:${invite.attendee.email}`,
+    `STATUS:${invite.method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    ...(invite.method === 'REQUEST'
+      ? ['BEGIN:VALARM', 'ACTION:DISPLAY', 'DESCRIPTION:Site visit reminder', 'TRIGGER:-PT1H', 'END:VALARM']
+      : []),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ]
+  return `${lines.map(foldLine).join('\r\n')}\r\n`
+}
@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { ConfigError } from '../config'
+
+interface Change<R> {
+  value: R
+  // False when there is nothing to write (e.g. updating a record that doesn't exist)
+  changed: boolean
+}
+
+/**
+ * Small durable collection persisted as a JSON file.
+ *
+ * Records are held in memory and the whole file is rewritten on every change
+ * (write to a temp file, then rename) so a crash never leaves a half-written
+ * file behind. Changes are serialized through a single promise chain and
+ * applied to a copy, which only replaces the in-memory records once it is on
+ * disk, so a failed write leaves memory matching the file.
+ */
+export class JsonStore<T extends { id: string }> {
+  private records = new Map<string, T>()
+  private loading: Promise<void> | null = null
+  private writeChain: Promise<unknown> = Promise.resolve()
+
+  constructor(private readonly filePath: string) {}
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile().catch(error => {
+        // Let the next call try again, e.g. once the file has been repaired
+        this.loading = null
+        throw error
+      })
+    }
+    return this.loading
+  }
+
+  private async readFile(): Promise<void> {
+    let raw: string
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8')
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return
+      throw new ConfigError([`Data file ${this.filePath} could not be read: ${error.message}`])
+    }
+
+    let items: T[]
+    try {
+      items = JSON.parse(raw)
+      if (!Array.isArray(items)) throw new Error('expected a JSON array of records')
+    } catch (error: any) {
+      throw new ConfigError([`Data file ${this.filePath} is corrupt: ${error.message}`])
+    }
+    this.records = new Map(items.map(item => [item.id, item]))
+  }
+
+  private async write(records: Map<string, T>): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(records.values()), null, 2)
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`
+    await fs.writeFile(tmpPath, snapshot, 'utf8')
+    await fs.rename(tmpPath, this.filePath)
+  }
+
+  private commit<R>(change: (draft: Map<string, T>) => Change<R>): Promise<R> {
+    const next = this.writeChain.then(async () => {
+      await this.load()
+      // Stored records are never modified in place, so a shallow copy is enough
+      const draft = new Map(this.records)
+      const { value, changed } = change(draft)
+      if (changed) {
+        await this.write(draft)
+        this.records = draft
+      }
+      return value
+    })
+    // Keep the chain alive even if this change fails
+    this.writeChain = next.catch(() => {})
+    return next
+  }
+
+  async all(): Promise<T[]> {
+    await this.load()
+    return Array.from(this.records.values()).map(record => structuredClone(record))
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    await this.load()
+    const record = this.records.get(id)
+    return record ? structuredClone(record) : undefined
+  }
+
+  insert(record: T): Promise<T> {
+    return this.commit(draft => {
+      if (draft.has(record.id)) {
+        throw new Error(`Record already exists: ${record.id}`)
+      }
+      draft.set(record.id, structuredClone(record))
+      return { value: structuredClone(record), changed: true }
+    })
+  }
+
+  update(id: string, updater: (record: T) => T): Promise<T | undefined> {
+    return this.commit<T | undefined>(draft => {
+      const existing = draft.get(id)
+      if (!existing) return { value: undefined, changed: false }
+      const updated = updater(structuredClone(existing))
+      draft.set(id, structuredClone(updated))
+      return { value: structuredClone(updated), changed: true }
+    })
+  }
+
+  remove(id: string): Promise<boolean> {
+    return this.commit(draft => {
+      const removed = draft.delete(id)
+      return { value: removed, changed: removed }
+    })
+  }
+}
@@ -0,0 +1,97 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { AppConfig, LogLevel } from '../config'
+
+export type LogFields = Record<string, unknown>
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+// Fields whose values identify a customer; compared lowercased with non-letters removed
+const PII_KEYS = new Set([
+  'email', 'to', 'replyto', 'phone', 'name', 'firstname', 'lastname', 'customername', 'owner', 'ownername',
+])
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g
+const PHONE_PATTERN = /(\+?1[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]\d{4}\b/g
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>()
+
+// Everything logged while fn runs, including work it starts, carries this request ID
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn)
+}
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId
+}
+
+// Emails and phone numbers inside free text, e.g. error messages from email providers
+export const redactText = (text: string) => text.replace(EMAIL_PATTERN, '[email]').replace(PHONE_PATTERN, '[phone]')
+
+function serializeError(error: Error): LogFields {
+  return {
+    type: error.name,
+    message: redactText(error.message),
+    ...((error as any).code !== undefined && { code: (error as any).code }),
+    ...(error.stack && { stack: redactText(error.stack) }),
+  }
+}
+
+function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactText(value)
+  if (value instanceof Error) return serializeError(value)
+  if (value === null || typeof value !== 'object') return value
+  if (depth > 5) return '[truncated]'
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1))
+  if (value instanceof Date) return value.toISOString()
+
+  const result: LogFields = {}
+  for (const [key, entry] of Object.entries(value)) {
+    // Only scalar values are replaced; an "email" settings object is walked like any other
+    const isScalar = typeof entry === 'string' || typeof entry === 'number'
+    result[key] = isScalar && PII_KEYS.has(key.toLowerCase().replace(/[^a-z]/g, ''))
+      ? '[redacted]'
+      : redact(entry, depth + 1)
+  }
+  return result
+}
+
+// Plain JSON at info until configuration is loaded, so startup errors are still logged
+let settings: AppConfig['logging'] = { level: 'info', format: 'json' }
+
+export function configureLogger(next: AppConfig['logging']) {
+  settings = next
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields) {
+  if (LEVELS[level] < LEVELS[settings.level]) return
+
+  const requestId = currentRequestId()
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: redactText(message),
+    ...(requestId && { requestId }),
+    ...(fields && (redact(fields) as LogFields)),
+  }
+
+  // Pretty for reading locally; one JSON object per line otherwise
+  let line = JSON.stringify(entry)
+  if (settings.format === 'pretty') {
+    const { time, level: _level, msg, ...rest } = entry
+    line = `${time} ${level.toUpperCase().padEnd(5)} ${msg}${Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : ''}`
+  }
+
+  if (LEVELS[level] >= LEVELS.warn) process.stderr.write(`${line}\n`)
+  else process.stdout.write(`${line}\n`)
+}
+
+/**
+ * Structured JSON logger. Pass details as fields rather than interpolating them
+ * into the message; customer emails, phones and names are redacted, and any
+ * Error value is written as type, message and stack.
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+}
@@ -0,0 +1,129 @@
+import { MatchedAddress, PropertyLookupData, PropertyLookupRequest, SelectOption } from '../types/property'
+import { AddressMatchError, matchOption, normalizeNumber, normalizeStreet, normalizeTown, streetBase } from './addressMatching'
+import { AssessorRecord, rawFromAssessorRecord, recordField } from './assessorRecords'
+import { normalizePropertyInfo } from './propertyNormalizer'
+import { PropertyProvider } from './propertyProvider'
+import { ScrapeHooks } from './propertyScraper'
+
+export interface MassGisParcelOptions {
+  // REST endpoint of a MassGIS Level 3 assessor layer, e.g. ".../FeatureServer/0"
+  url?: string
+  timeoutMs: number
+}
+
+interface ArcGisQueryResponse {
+  features?: Array<{ attributes: AssessorRecord }>
+  // Set when more rows matched than resultRecordCount returned
+  exceededTransferLimit?: boolean
+  error?: { code: number; message: string }
+}
+
+interface QueryResult {
+  records: AssessorRecord[]
+  truncated: boolean
+}
+
+// Cap the rows pulled back for one house number on one street
+const MAX_RECORDS = 200
+
+const quoteSql = (value: string) => `'${value.replace(/'/g, "''")}'`
+
+const unique = (values: string[]) => Array.from(new Set(values))
+
+// The longest word of the street name without its suffix ("MAIN" for "North Main Street"), so
+// abbreviations the layer spells differently ("N" vs "NORTH", "ST" vs "STREET") still match
+function streetKeyword(streetName: string): string | undefined {
+  const words = streetBase(normalizeStreet(streetName)).base.split(' ').filter(Boolean)
+  return words.sort((a, b) => b.length - a.length)[0]
+}
+
+// The number as given, its bare digits ("12" for "12A") and both ends of a range ("100-102")
+function numberVariants(number: string): string[] {
+  const range = number.match(/^(\d+)[A-Z]?-(\d+)[A-Z]?$/)
+  return unique([number, number.match(/^\d+/)?.[0] || '', ...(range ? [range[1], range[2]] : [])].filter(Boolean))
+}
+
+/**
+ * Queries the MassGIS parcel/assessor layer over ArcGIS REST. Much faster than
+ * driving the lookup form, but the layer's CITY column is the postal city, so
+ * villages like Hyannis are queried under both names.
+ */
+export class MassGisParcelProvider implements PropertyProvider {
+  readonly name = 'massgis-parcels'
+
+  constructor(private readonly options: MassGisParcelOptions) {}
+
+  async lookup({ city, streetName, addressNumber }: PropertyLookupRequest, hooks?: ScrapeHooks): Promise<PropertyLookupData | null> {
+    if (!this.options.url) return null
+
+    const towns = unique([city.trim().toUpperCase(), normalizeTown(city)])
+    const number = normalizeNumber(addressNumber).replace(/[^0-9A-Z-]/g, '')
+    const keyword = streetKeyword(streetName)
+    if (!/^\d/.test(number) || !keyword) return null
+
+    // Exact numbers on streets containing the keyword; ranges ("12-14") are scored against the number below
+    const { records, truncated } = await this.query([
+      `UPPER(CITY) IN (${towns.map(quoteSql).join(', ')})`,
+      `UPPER(FULL_STR) LIKE ${quoteSql(`%${keyword}%`)}`,
+      `(ADDR_NUM IN (${numberVariants(number).map(quoteSql).join(', ')}) OR ADDR_NUM LIKE '%-%')`,
+    ].join(' AND '))
+    if (records.length === 0) return null
+
+    const streetOptions: SelectOption[] = unique(records.map(record => recordField(record, 'street') || ''))
+      .filter(Boolean)
+      .map(street => ({ value: street, text: street }))
+    const streetMatch = matchOption('street', streetName, streetOptions)
+    // Some rows were cut off, so the right parcel may be missing: ask rather than pick from a partial list
+    if (truncated) {
+      if (streetMatch.candidates.length === 0) return null
+      throw new AddressMatchError('street', streetName, streetMatch.candidates)
+    }
+    if (!streetMatch.best) throw new AddressMatchError('street', streetName, streetMatch.candidates)
+
+    const onStreet = records.filter(record => recordField(record, 'street') === streetMatch.best?.value)
+    const numberOptions: SelectOption[] = unique(onStreet.map(record => recordField(record, 'addressNumber') || ''))
+      .filter(Boolean)
+      .map(value => ({ value, text: value }))
+    const numberMatch = matchOption('number', addressNumber, numberOptions)
+    if (!numberMatch.best) throw new AddressMatchError('number', addressNumber, numberMatch.candidates)
+
+    hooks?.onProgress?.('parsing')
+    const record = onStreet.find(entry => recordField(entry, 'addressNumber') === numberMatch.best?.value) as AssessorRecord
+    const matched: MatchedAddress = {
+      town: recordField(record, 'town') || normalizeTown(city),
+      street: streetMatch.best.text,
+      addressNumber: numberMatch.best.text,
+      scores: {
+        // The town is matched exactly by the query
+        town: 1,
+        street: streetMatch.best.score,
+        addressNumber: numberMatch.best.score,
+      },
+    }
+
+    return { propertyInfo: normalizePropertyInfo(rawFromAssessorRecord(record)), matched }
+  }
+
+  private async query(where: string): Promise<QueryResult> {
+    const params = new URLSearchParams({
+      where,
+      outFields: '*',
+      returnGeometry: 'false',
+      resultRecordCount: String(MAX_RECORDS),
+      f: 'json',
+    })
+    const response = await fetch(`${this.options.url!.replace(/\/+$/, '')}/query?${params}`, {
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    })
+    if (!response.ok) {
+      throw new Error(`MassGIS parcel query failed with HTTP ${response.status}`)
+    }
+
+    // ArcGIS reports query errors with a 200 status and an error body
+    const body = await response.json() as ArcGisQueryResponse
+    if (body.error) {
+      throw new Error(`MassGIS parcel query failed: ${body.error.message}`)
+    }
+    return { records: (body.features || []).map(feature => feature.attributes), truncated: !!body.exceededTransferLimit }
+  }
+}
@@ -0,0 +1,129 @@
+type Labels = Record<string, string>
+
+// Seconds; covers fast cache hits through slow Chromium scrapes
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60]
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = Object.entries({ ...labels, ...extra })
+  return entries.length > 0 ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}` : ''
+}
+
+// Label values in a fixed key order, so { a, b } and { b, a } share a series
+const seriesKey = (labelNames: string[], labels: Labels) => labelNames.map(name => labels[name] ?? '').join('\u0000')
+
+interface Metric {
+  render(): string
+}
+
+export class Counter implements Metric {
+  private series = new Map<string, { labels: Labels; value: number }>()
+
+  constructor(readonly name: string, readonly help: string, private readonly labelNames: string[] = []) {}
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = seriesKey(this.labelNames, labels)
+    const current = this.series.get(key)
+    if (current) current.value += amount
+    else this.series.set(key, { labels, value: amount })
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`]
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`)
+    }
+    return lines.join('\n')
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly labelNames: string[] = [],
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(this.labelNames, labels)
+    let current = this.series.get(key)
+    if (!current) {
+      current = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, current)
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) current!.counts[index]++
+    })
+    current.sum += value
+    current.count++
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${counts[index]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    }
+    return lines.join('\n')
+  }
+}
+
+export const httpRequestDuration = new Histogram(
+  'http_request_duration_seconds',
+  'HTTP request latency by route and status code',
+  ['method', 'route', 'status']
+)
+
+export const propertyLookupDuration = new Histogram(
+  'property_lookup_duration_seconds',
+  'Time spent in each property provider, by outcome (found, skipped, not_found, error)',
+  ['provider', 'outcome']
+)
+
+export const propertyLookupFailures = new Counter(
+  'property_lookup_failures_total',
+  'Property provider failures by the last step reached before the error',
+  ['provider', 'step']
+)
+
+export const emailSends = new Counter(
+  'email_send_attempts_total',
+  'Email delivery attempts by kind, transport and outcome (sent, retry, dead)',
+  ['kind', 'transport', 'outcome']
+)
+
+export const webhookDeliveries = new Counter(
+  'webhook_delivery_attempts_total',
+  'Webhook delivery attempts by endpoint, event type and outcome (delivered, retry, dead)',
+  ['endpoint', 'event', 'outcome']
+)
+
+export const smsSends = new Counter(
+  'sms_send_attempts_total',
+  'Text messages by kind, transport and outcome (sent, failed, skipped)',
+  ['kind', 'transport', 'outcome']
+)
+
+const registry: Metric[] = [httpRequestDuration, propertyLookupDuration, propertyLookupFailures, emailSends, webhookDeliveries, smsSends]
+
+// Prometheus text exposition format
+export function renderMetrics(): string {
+  const memory = process.memoryUsage()
+  const processMetrics = [
+    '# HELP process_uptime_seconds Seconds since the server process started',
+    '# TYPE process_uptime_seconds gauge',
+    `process_uptime_seconds ${process.uptime()}`,
+    '# HELP process_resident_memory_bytes Resident memory size in bytes',
+    '# TYPE process_resident_memory_bytes gauge',
+    `process_resident_memory_bytes ${memory.rss}`,
+  ].join('\n')
+  return `${[...registry.map(metric => metric.render()), processMetrics].join('\n')}\n`
+}
@@ -0,0 +1,239 @@
+import fs from 'fs'
+import defaultPricingConfig from '../config/pricing.json'
+import { QuoteData, QuoteEstimate } from '../types/quote'
+import { getConfig } from '../config'
+
+interface EraValue {
+  builtBefore: number
+  value: number
+}
+
+interface FuelConfig {
+  pricePerUnit: number
+  mmbtuPerUnit: number
+  efficiency: number
+}
+
+interface FinancingPlanConfig {
+  program: string
+  aprPercent: number
+  termMonths: number
+  maxAmount: number
+}
+
+interface ElectricityProviderConfig {
+  ratePerKwh: number
+  massSaveEligible: boolean
+}
+
+export interface PricingConfig {
+  version: string
+  sizing: {
+    defaultSquareFootage: number
+    defaultYearBuilt: number
+    btuPerSqFtByEra: EraValue[]
+    atticFactor: Record<string, number>
+    basementFactor: Record<string, number>
+    perAdditionalFloorFactor: number
+    tonIncrement: number
+    minTons: number
+    maxTons: number
+  }
+  cost: {
+    baseInstall: number
+    perTon: number
+    perAdditionalFloor: number
+    noAtticAdder: number
+  }
+  rebate: {
+    byHeatingSource: Record<string, number>
+    default: number
+    max: number
+  }
+  usage: {
+    mmbtuPerSqFtByEra: EraValue[]
+    heatPumpSeasonalCop: number
+  }
+  fuels: Record<string, FuelConfig>
+  defaultHeatingSource: string
+  electricityProviders: Record<string, ElectricityProviderConfig>
+  defaultElectricityProvider: ElectricityProviderConfig
+  naturalGasProviders: Record<string, number>
+  clientPriceTolerancePercent: number
+  // massSave applies when the electric utility participates in Mass Save®, standard otherwise
+  financing?: {
+    massSave?: FinancingPlanConfig
+    standard?: FinancingPlanConfig
+  }
+}
+
+export interface FinancingEstimate {
+  program: string
+  amountFinanced: number
+  aprPercent: number
+  termMonths: number
+  monthlyPayment: number
+}
+
+// Price tables can be swapped without a code change by pointing PRICING_CONFIG_PATH at a JSON file
+function loadPricingConfig(): PricingConfig {
+  const configPath = getConfig().pricingConfigPath
+  if (!configPath) return defaultPricingConfig as PricingConfig
+  return JSON.parse(fs.readFileSync(configPath, 'utf8'))
+}
+
+const pricingConfig = loadPricingConfig()
+
+const KWH_PER_MMBTU = 293.071
+
+// Inputs the pricing engine reads from a quote submission
+export type EstimateInput = Pick<QuoteData,
+  'squareFootage' | 'yearBuilt' | 'floorsAboveGround' | 'hasAttic' | 'basementType' |
+  'heatingSource' | 'electricityProvider' | 'naturalGasProvider' | 'propertyInfo'
+>
+
+// Lowercase and collapse separators so "Natural Gas" and "natural-gas" share a key
+const normalizeKey = (value?: string) => (value || '').trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+const normalizeProvider = (value?: string) => (value || '').trim().toLowerCase()
+
+function parseNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const parsed = parseFloat(String(value).replace(/[^\d.]/g, ''))
+  return isNaN(parsed) ? undefined : parsed
+}
+
+function eraValue(table: EraValue[], yearBuilt: number): number {
+  const match = table.find(entry => yearBuilt < entry.builtBefore)
+  return (match || table[table.length - 1]).value
+}
+
+const roundDollars = (value: number) => Math.round(value)
+
+export function getPricingConfig(): PricingConfig {
+  return pricingConfig
+}
+
+/**
+ * Compute system size, installed cost, Mass Save® rebate, net cost and
+ * estimated annual savings for a home. Missing inputs fall back to the
+ * configured defaults and are listed in `assumptions`.
+ */
+export function estimateQuote(input: EstimateInput, config: PricingConfig = pricingConfig): QuoteEstimate {
+  const assumptions: string[] = []
+
+  let squareFootage = parseNumber(input.squareFootage)
+  if (!squareFootage || squareFootage <= 0) {
+    squareFootage = config.sizing.defaultSquareFootage
+    assumptions.push(`Square footage not provided; assumed ${squareFootage} sq ft`)
+  }
+
+  let yearBuilt = parseNumber(input.yearBuilt) ?? parseNumber(input.propertyInfo?.yearBuilt)
+  if (!yearBuilt) {
+    yearBuilt = config.sizing.defaultYearBuilt
+    assumptions.push(`Year built not provided; assumed ${yearBuilt}`)
+  } else if (!parseNumber(input.yearBuilt)) {
+    assumptions.push(`Year built taken from property records (${yearBuilt})`)
+  }
+
+  const floors = Math.max(1, Math.round(parseNumber(input.floorsAboveGround) || 1))
+  const hasAttic = normalizeKey(input.hasAttic)
+  const basementType = normalizeKey(input.basementType)
+
+  let heatingSource = normalizeKey(input.heatingSource)
+  if (!config.fuels[heatingSource]) {
+    heatingSource = config.defaultHeatingSource
+    assumptions.push(`Heating source not recognized; priced against ${heatingSource}`)
+  }
+
+  const electricity = config.electricityProviders[normalizeProvider(input.electricityProvider)]
+    || config.defaultElectricityProvider
+
+  // Design heating load and system size
+  const loadFactor = (config.sizing.atticFactor[hasAttic] ?? 1) *
+    (config.sizing.basementFactor[basementType] ?? 1) *
+    (1 + (floors - 1) * config.sizing.perAdditionalFloorFactor)
+  const designLoadBtu = Math.round(squareFootage * eraValue(config.sizing.btuPerSqFtByEra, yearBuilt) * loadFactor)
+  const increment = config.sizing.tonIncrement
+  const systemTons = Math.min(
+    config.sizing.maxTons,
+    Math.max(config.sizing.minTons, Math.ceil(designLoadBtu / 12000 / increment) * increment)
+  )
+
+  // Installed cost
+  const installedCost = roundDollars(
+    config.cost.baseInstall +
+    config.cost.perTon * systemTons +
+    config.cost.perAdditionalFloor * (floors - 1) +
+    (hasAttic === 'no' ? config.cost.noAtticAdder : 0)
+  )
+
+  // Mass Save® rebate, only for customers of participating electric utilities
+  const massSaveEligible = electricity.massSaveEligible
+  const rebate = massSaveEligible
+    ? Math.min(config.rebate.max, installedCost, config.rebate.byHeatingSource[heatingSource] ?? config.rebate.default)
+    : 0
+  if (!massSaveEligible) {
+    assumptions.push('Electric provider does not participate in Mass Save®; no rebate applied')
+  }
+  const netCost = Math.max(0, installedCost - rebate)
+
+  // Annual operating cost today versus with a heat pump
+  const annualLoadMmbtu = squareFootage * eraValue(config.usage.mmbtuPerSqFtByEra, yearBuilt)
+  const fuel = config.fuels[heatingSource]
+  let fuelPrice = fuel.pricePerUnit
+  if (heatingSource === 'natural_gas') {
+    fuelPrice = config.naturalGasProviders[normalizeProvider(input.naturalGasProvider)] ?? fuelPrice
+  } else if (heatingSource === 'electric') {
+    fuelPrice = electricity.ratePerKwh
+  }
+  const currentAnnualHeatingCost = roundDollars(annualLoadMmbtu / fuel.efficiency / fuel.mmbtuPerUnit * fuelPrice)
+  const heatPumpAnnualCost = roundDollars(
+    annualLoadMmbtu / config.usage.heatPumpSeasonalCop * KWH_PER_MMBTU * electricity.ratePerKwh
+  )
+  const annualSavings = Math.max(0, currentAnnualHeatingCost - heatPumpAnnualCost)
+
+  return {
+    pricingVersion: config.version,
+    designLoadBtu,
+    systemTons,
+    installedCost,
+    rebate,
+    netCost,
+    massSaveEligible,
+    currentAnnualHeatingCost,
+    heatPumpAnnualCost,
+    annualSavings,
+    assumptions,
+  }
+}
+
+// True when a browser-supplied total is within the configured tolerance of the server price
+export function isClientPriceConsistent(clientTotal: number | undefined, estimate: QuoteEstimate, config: PricingConfig = pricingConfig): boolean {
+  if (clientTotal === undefined || clientTotal === null) return true
+  const tolerance = estimate.installedCost * config.clientPriceTolerancePercent / 100
+  return Math.abs(Number(clientTotal) - estimate.installedCost) <= tolerance
+}
+
+/**
+ * Monthly payment for financing the out-of-pocket cost, capped at the plan's
+ * maximum. Undefined when nothing is owed or no plan is configured.
+ */
+export function estimateFinancing(estimate: QuoteEstimate, config: PricingConfig = pricingConfig): FinancingEstimate | undefined {
+  const plan = estimate.massSaveEligible ? config.financing?.massSave : config.financing?.standard
+  if (!plan || estimate.netCost <= 0) return undefined
+
+  const amountFinanced = Math.min(estimate.netCost, plan.maxAmount)
+  const monthlyRate = plan.aprPercent / 100 / 12
+  const payment = monthlyRate === 0
+    ? amountFinanced / plan.termMonths
+    : amountFinanced * monthlyRate / (1 - Math.pow(1 + monthlyRate, -plan.termMonths))
+
+  return {
+    program: plan.program,
+    amountFinanced,
+    aprPercent: plan.aprPercent,
+    termMonths: plan.termMonths,
+    monthlyPayment: Math.round(payment * 100) / 100,
+  }
+}
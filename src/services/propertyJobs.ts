@@ -0,0 +1,98 @@
+import crypto from 'crypto'
+import { EventEmitter } from 'events'
+import { PropertyLookupRequest } from '../types/property'
+import { LookupStep } from './propertyScraper'
+import { PropertyLookupResult, lookupProperty } from './propertyLookup'
+import { getConfig } from '../config'
+
+export type LookupJobStatus = 'running' | 'succeeded' | 'failed'
+
+export interface LookupJobStep {
+  step: LookupStep
+  detail?: string
+  at: string
+}
+
+export interface LookupJob {
+  id: string
+  status: LookupJobStatus
+  createdAt: string
+  updatedAt: string
+  request: PropertyLookupRequest
+  steps: LookupJobStep[]
+  result?: PropertyLookupResult
+  // Kept as thrown so the route can map it to the same response POST /info would give
+  error?: unknown
+}
+
+// Finished jobs stay readable this long so slow pollers still see the result
+const jobTtlMs = () => getConfig().property.jobTtlMinutes * 60 * 1000
+const MAX_JOBS = 1000
+
+const jobs = new Map<string, LookupJob>()
+
+// Emits "update" with the job after every step and when it finishes
+const jobEvents = new EventEmitter()
+jobEvents.setMaxListeners(0)
+
+function pruneJobs() {
+  const cutoff = Date.now() - jobTtlMs()
+  for (const [id, job] of jobs) {
+    if (job.status !== 'running' && new Date(job.updatedAt).getTime() < cutoff) jobs.delete(id)
+  }
+  // Map order is insertion order, so the oldest jobs go first
+  for (const id of jobs.keys()) {
+    if (jobs.size <= MAX_JOBS) break
+    jobs.delete(id)
+  }
+}
+
+function touch(job: LookupJob, changes: Partial<LookupJob>) {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() })
+  jobEvents.emit('update', job)
+}
+
+/**
+ * Start a lookup in the background and return its job right away. The lookup
+ * still goes through the cache and browser pool, so a busy pool fails the job
+ * rather than the request that created it.
+ */
+export function startLookupJob(request: PropertyLookupRequest): LookupJob {
+  pruneJobs()
+
+  const now = new Date().toISOString()
+  const job: LookupJob = {
+    id: crypto.randomUUID(),
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+    request,
+    steps: [],
+  }
+  jobs.set(job.id, job)
+
+  const onProgress = (step: LookupStep, detail?: string) => {
+    touch(job, { steps: [...job.steps, { step, detail, at: new Date().toISOString() }] })
+  }
+
+  lookupProperty(request, onProgress)
+    .then(result => touch(job, { status: 'succeeded', result }))
+    .catch(error => touch(job, { status: 'failed', error }))
+
+  return job
+}
+
+export function getLookupJob(id: string): LookupJob | undefined {
+  return jobs.get(id)
+}
+
+// Call listener on every change to the job until the returned function is called
+export function subscribeToLookupJob(id: string, listener: (job: LookupJob) => void): () => void {
+  const handler = (job: LookupJob) => {
+    if (job.id === id) listener(job)
+  }
+  jobEvents.on('update', handler)
+  return () => {
+    jobEvents.off('update', handler)
+  }
+}
@@ -0,0 +1,136 @@
+import { MatchedAddress, PropertyInfo, PropertyLookupRequest, SelectOption } from '../types/property'
+import {
+  OptionLevel,
+  ScrapeHooks,
+  scrapeAddressNumbers,
+  scrapeStreets,
+  scrapeTowns,
+} from './propertyScraper'
+import { ProviderLookupResult, lookupWithFallback } from './propertyProvider'
+import { CacheResult, TtlCache } from './ttlCache'
+import { normalizeNumber, normalizeStreet, normalizeTown } from './addressMatching'
+import { getConfig } from '../config'
+import { BadRequestError } from '../errors'
+
+const cacheTtlMs = () => getConfig().property.cacheTtlHours * 60 * 60 * 1000
+
+const optionsTtlMs = () => getConfig().property.optionsCacheTtlHours * 60 * 60 * 1000
+
+const cache = new TtlCache<ProviderLookupResult>(cacheTtlMs(), getConfig().property.cacheMaxEntries)
+const optionsCache = new TtlCache<string[] | null>(optionsTtlMs(), 5000)
+
+export interface CacheInfo {
+  hit: boolean
+  cachedAt: string
+  ageSeconds: number
+}
+
+export interface PropertyLookupResult {
+  data: PropertyInfo
+  matched: MatchedAddress
+  // Which property provider answered
+  provider: string
+  cache: CacheInfo
+}
+
+export interface AddressOptionsResult {
+  data: string[]
+  cache: CacheInfo
+}
+
+// "worcester|Main Street|12 a" and "WORCESTER|MAIN ST|12A" share one cache entry
+export function propertyCacheKey({ city, streetName, addressNumber }: Partial<PropertyLookupRequest>): string {
+  return [
+    city !== undefined ? normalizeTown(city) : undefined,
+    streetName !== undefined ? normalizeStreet(streetName) : undefined,
+    addressNumber !== undefined ? normalizeNumber(addressNumber) : undefined,
+  ].filter((part): part is string => part !== undefined).join('|')
+}
+
+const toCacheInfo = (result: CacheResult<unknown>): CacheInfo => ({
+  hit: result.cached,
+  cachedAt: new Date(result.storedAt).toISOString(),
+  ageSeconds: Math.round(result.ageMs / 1000),
+})
+
+const optionTexts = (options: SelectOption[] | null) => options ? options.map(opt => opt.text) : null
+
+const optionsKey = (level: OptionLevel, context: { town?: string; street?: string } = {}) =>
+  [level, context.town && normalizeTown(context.town), context.street && normalizeStreet(context.street)]
+    .filter(Boolean)
+    .join('|')
+
+// Keep the option lists a full lookup reads, so autocomplete can use them later
+const seedOptionsCache: ScrapeHooks = {
+  onOptions: (level, options, context) => {
+    if (options.length > 0) optionsCache.set(optionsKey(level, context), options.map(opt => opt.text))
+  },
+}
+
+/**
+ * Look up a property, serving repeats from cache and sharing one lookup between
+ * identical concurrent requests. Progress is only reported to the caller whose
+ * request started the lookup; callers that join it just get the result.
+ */
+export async function lookupProperty(
+  request: PropertyLookupRequest,
+  onProgress?: ScrapeHooks['onProgress']
+): Promise<PropertyLookupResult> {
+  cache.setTtl(cacheTtlMs())
+  const hooks: ScrapeHooks = { ...seedOptionsCache, onProgress }
+  const result = await cache.getOrLoad(propertyCacheKey(request), () => lookupWithFallback(request, hooks))
+  return {
+    data: result.value.propertyInfo,
+    matched: result.value.matched,
+    provider: result.value.provider,
+    cache: toCacheInfo(result),
+  }
+}
+
+async function loadOptions(key: string, loader: () => Promise<SelectOption[] | null>): Promise<AddressOptionsResult | null> {
+  optionsCache.setTtl(optionsTtlMs())
+  const result = await optionsCache.getOrLoad(key, async () => optionTexts(await loader()))
+  if (!result.value) {
+    // Unknown town/street: don't remember the miss
+    optionsCache.delete(key)
+    return null
+  }
+  return { data: result.value, cache: toCacheInfo(result) }
+}
+
+export async function getTowns(): Promise<AddressOptionsResult> {
+  const result = await loadOptions(optionsKey('towns'), scrapeTowns)
+  return result || { data: [], cache: { hit: false, cachedAt: new Date().toISOString(), ageSeconds: 0 } }
+}
+
+// Null when the town is not offered by the lookup form
+export async function getStreets(town: string): Promise<AddressOptionsResult | null> {
+  return loadOptions(optionsKey('streets', { town }), () => scrapeStreets(town))
+}
+
+// Null when the town or street is not offered by the lookup form
+export async function getAddressNumbers(town: string, street: string): Promise<AddressOptionsResult | null> {
+  return loadOptions(optionsKey('numbers', { town, street }), () => scrapeAddressNumbers(town, street))
+}
+
+/**
+ * Drop cached lookups. With no fields everything is cleared; with a city, or a
+ * city and street, every address under it is cleared; with all three, one
+ * address. Each field needs the ones before it, so a partial key can never
+ * widen to more than was asked for. Lookups still running are not cached.
+ */
+export function invalidatePropertyCache(request: Partial<PropertyLookupRequest> = {}): number {
+  const { city, streetName, addressNumber } = request
+  if ((streetName && !city) || (addressNumber && !streetName)) {
+    throw new BadRequestError('addressNumber needs streetName, and streetName needs city')
+  }
+
+  if (!city) return cache.clear()
+  if (addressNumber) return cache.delete(propertyCacheKey(request)) ? 1 : 0
+  // Towns and streets are normalized to letters, digits, spaces and dashes, so "|" ends the prefix exactly
+  return cache.deleteByPrefix(`${propertyCacheKey({ city, streetName })}|`)
+}
+
+export function propertyCacheSize(): number {
+  return cache.size
+}
@@ -0,0 +1,131 @@
+import propertyHints from '../config/propertyHints.json'
+import {
+  InsulationEstimate,
+  LotSize,
+  PROPERTY_INFO_VERSION,
+  PropertyHints,
+  PropertyInfo,
+  RawPropertyInfo,
+} from '../types/property'
+import { PropertyType } from '../types/quote'
+
+interface UseCodeEntry {
+  label: string
+  propertyType?: PropertyType
+  dwellingUnits?: number
+}
+
+interface InsulationEra {
+  builtBefore: number
+  estimate: InsulationEstimate
+  note: string
+}
+
+const USE_CODES = propertyHints.useCodes as Record<string, UseCodeEntry>
+const INSULATION_BY_ERA = propertyHints.insulationByEra as InsulationEra[]
+
+const SQUARE_FEET_PER_ACRE = 43560
+
+const RAW_FIELDS: Array<keyof RawPropertyInfo> = [
+  'owner', 'ownerAddress', 'buildingValue', 'landValue', 'otherValue', 'totalValue',
+  'assessmentYear', 'lotSize', 'lastSalePrice', 'lastSaleDate', 'useCode', 'yearBuilt',
+]
+
+// "$412,300" -> 412300
+function parseAmount(value?: string): number | undefined {
+  if (!value) return undefined
+  const digits = value.replace(/[^\d.]/g, '')
+  if (!digits) return undefined
+  const parsed = parseFloat(digits)
+  return isNaN(parsed) ? undefined : parsed
+}
+
+function parseYear(value?: string): number | undefined {
+  const match = value?.match(/\b(1[6-9]\d{2}|2\d{3})\b/)
+  return match ? parseInt(match[1], 10) : undefined
+}
+
+// "0.25 Acres" or "10,890 sq ft" -> both units
+function parseLotSize(value?: string): LotSize | undefined {
+  const amount = parseAmount(value)
+  if (amount === undefined) return undefined
+  const inSquareFeet = /sq|square|sf\b/i.test(value || '')
+  const acres = inSquareFeet ? amount / SQUARE_FEET_PER_ACRE : amount
+  return {
+    acres: Math.round(acres * 1000) / 1000,
+    squareFeet: Math.round(inSquareFeet ? amount : amount * SQUARE_FEET_PER_ACRE),
+  }
+}
+
+// "20190815" or "08/15/2019" -> "2019-08-15"; anything unparseable is dropped
+function parseSaleDate(value?: string): string | undefined {
+  if (!value) return undefined
+  let parts = value.match(/^(\d{4})(\d{2})(\d{2})$/)?.slice(1)
+  if (!parts) {
+    const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+    if (us) parts = [us[3], us[1].padStart(2, '0'), us[2].padStart(2, '0')]
+  }
+  if (!parts) return undefined
+  const iso = parts.join('-')
+  const date = new Date(`${iso}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(iso) ? iso : undefined
+}
+
+// Some towns report four-digit codes ("1010"); the first three digits carry the class
+function lookupUseCode(code?: string): UseCodeEntry | undefined {
+  if (!code) return undefined
+  return USE_CODES[code] || USE_CODES[code.slice(0, 3)]
+}
+
+function deriveHints(useCode: UseCodeEntry | undefined, yearBuilt: number | undefined): PropertyHints {
+  const hints: PropertyHints = {}
+  if (useCode?.propertyType) hints.propertyType = useCode.propertyType
+  if (useCode?.dwellingUnits) hints.dwellingUnits = useCode.dwellingUnits
+  if (yearBuilt) {
+    const era = INSULATION_BY_ERA.find(entry => yearBuilt < entry.builtBefore) || INSULATION_BY_ERA[INSULATION_BY_ERA.length - 1]
+    hints.insulation = era.estimate
+    hints.insulationNote = era.note
+  }
+  return hints
+}
+
+/**
+ * Turn the strings scraped from a result page into typed values plus hints for
+ * the quote form. The original strings are kept under `raw` for debugging.
+ */
+export function normalizePropertyInfo(raw: RawPropertyInfo): PropertyInfo {
+  const cleanRaw: RawPropertyInfo = {}
+  for (const field of RAW_FIELDS) {
+    const value = raw[field]
+    if (value !== undefined && value !== null && String(value).trim()) cleanRaw[field] = String(value).trim()
+  }
+
+  const useCode = cleanRaw.useCode?.match(/\d+/)?.[0]
+  const useEntry = lookupUseCode(useCode)
+  const yearBuilt = parseYear(cleanRaw.yearBuilt)
+
+  return {
+    version: PROPERTY_INFO_VERSION,
+    owner: cleanRaw.owner,
+    ownerAddress: cleanRaw.ownerAddress,
+    buildingValue: parseAmount(cleanRaw.buildingValue),
+    landValue: parseAmount(cleanRaw.landValue),
+    otherValue: parseAmount(cleanRaw.otherValue),
+    totalValue: parseAmount(cleanRaw.totalValue),
+    assessmentYear: parseYear(cleanRaw.assessmentYear),
+    lotSize: parseLotSize(cleanRaw.lotSize),
+    lastSalePrice: parseAmount(cleanRaw.lastSalePrice),
+    lastSaleDate: parseSaleDate(cleanRaw.lastSaleDate),
+    useCode,
+    useLabel: useEntry?.label,
+    yearBuilt,
+    hints: deriveHints(useEntry, yearBuilt),
+    raw: cleanRaw,
+  }
+}
+
+// Quotes stored before PropertyInfo was versioned hold the raw strings at the top level
+export function upgradePropertyInfo(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || 'version' in value) return value
+  return normalizePropertyInfo(value as RawPropertyInfo)
+}
@@ -0,0 +1,105 @@
+import * as cheerio from 'cheerio'
+import { RawPropertyInfo } from '../types/property'
+
+type MoneyField = 'buildingValue' | 'landValue' | 'otherValue' | 'totalValue' | 'lastSalePrice'
+
+const MONEY_LABELS: Array<[string, MoneyField]> = [
+  ['Building Value:', 'buildingValue'],
+  ['Land Value:', 'landValue'],
+  ['Other Value:', 'otherValue'],
+  ['Total Value:', 'totalValue'],
+  ['Last Sale Price:', 'lastSalePrice'],
+]
+
+/**
+ * True for the form's "no records" page, which it shows instead of a result
+ * when the selected address has no parcel data.
+ */
+export function isNoRecordsPage(html: string): boolean {
+  const $ = cheerio.load(html)
+  return $('#divError').length > 0 || /No records found/i.test($('body').text())
+}
+
+/**
+ * Extract the raw field strings from a MassPropertyInfo.aspx result page.
+ * Pure: no browser or network access, so it can be run against saved pages.
+ * Fields that are missing from the page are left undefined.
+ */
+export function parsePropertyHtml(html: string): RawPropertyInfo {
+  const $ = cheerio.load(html)
+
+  const propertyInfo: RawPropertyInfo = {}
+  const pageText = $('body').text()
+
+  // Each result row holds one label and its value, either in one cell or split across cells.
+  // Rows are read on their own so a label elsewhere in the table can't leak into this field.
+  $('table tr').each((_, row) => {
+    const cells = $(row).children('td, th').map((_, cell) => $(cell).text().trim()).get() as string[]
+    const text = cells.join(' ').trim()
+    if (!text) return
+
+    if (text.includes('Owner:')) {
+      const owner = text.replace('Owner:', '').trim()
+      if (owner) propertyInfo.owner = owner
+    }
+
+    if (text.includes('Owner Address:')) {
+      const labelIndex = cells.findIndex(cell => cell.includes('Owner Address:'))
+      const addressLines = [
+        cells[labelIndex].replace('Owner Address:', '').trim(),
+        ...cells.slice(labelIndex + 1),
+      ].filter(Boolean)
+      if (addressLines.length > 0) propertyInfo.ownerAddress = addressLines.join(', ')
+    }
+
+    for (const [label, field] of MONEY_LABELS) {
+      if (text.includes(label)) {
+        const match = text.match(/\$[\d,]+/)
+        if (match) propertyInfo[field] = match[0]
+      }
+    }
+
+    if (text.includes('Assessment data from') || /\bFY\s+\d{4}/.test(text)) {
+      const match = text.match(/FY\s+\d{4}/) || text.match(/\d{4}/)
+      if (match) propertyInfo.assessmentYear = match[0]
+    }
+
+    if (text.includes('Lot Size:')) {
+      const match = text.match(/[\d.]+\s*Acres?/)
+      if (match) propertyInfo.lotSize = match[0]
+    }
+
+    if (text.includes('Last Sale Date:')) {
+      const match = text.match(/\d{8}/)
+      if (match) propertyInfo.lastSaleDate = match[0]
+    }
+
+    if (text.includes('Use Code:')) {
+      const match = text.match(/Use Code:\s*(\d+)/)
+      if (match) propertyInfo.useCode = match[1]
+    }
+
+    if (text.includes('Year Built:')) {
+      const match = text.match(/Year Built:\s*(\d{4})/)
+      if (match) propertyInfo.yearBuilt = match[1]
+    }
+  })
+
+  // Fallback regex extraction for layouts that don't use tables
+  if (!propertyInfo.yearBuilt) {
+    const yearMatch = pageText.match(/Year Built[:\s]+(\d{4})/i)
+    if (yearMatch) propertyInfo.yearBuilt = yearMatch[1]
+  }
+
+  if (!propertyInfo.totalValue) {
+    const totalMatch = pageText.match(/Total Value[:\s]+\$?([\d,]+)/i)
+    if (totalMatch) propertyInfo.totalValue = '$' + totalMatch[1]
+  }
+
+  if (!propertyInfo.lotSize) {
+    const lotMatch = pageText.match(/Lot Size[:\s]+([\d.]+\s*Acres?)/i)
+    if (lotMatch) propertyInfo.lotSize = lotMatch[1]
+  }
+
+  return propertyInfo
+}
@@ -0,0 +1,135 @@
+import { PropertyLookupData, PropertyLookupRequest } from '../types/property'
+import { AddressMatchError } from './addressMatching'
+import { LookupStep, ScrapeHooks, scrapePropertyInfo } from './propertyScraper'
+import { MassGisParcelProvider } from './massGisProvider'
+import { AssessorFileProvider } from './assessorFileProvider'
+import { PropertyConfig, getConfig } from '../config'
+import { upstreamError } from '../errors'
+import { logger } from './logger'
+import { propertyLookupDuration, propertyLookupFailures } from './metrics'
+
+/**
+ * A source of assessor data for one address. Return null when the address is
+ * outside the provider's coverage so the next provider is tried; throw
+ * AddressMatchError when the town is covered but the street or number is not
+ * a confident match.
+ */
+export interface PropertyProvider {
+  readonly name: string
+  lookup(request: PropertyLookupRequest, hooks?: ScrapeHooks): Promise<PropertyLookupData | null>
+}
+
+export interface ProviderLookupResult extends PropertyLookupData {
+  // Name of the provider that answered
+  provider: string
+}
+
+// Walks the MassPropertyInfo.aspx form in headless Chromium; covers every MA town but is the slowest
+export class ScraperPropertyProvider implements PropertyProvider {
+  readonly name = 'mass-property-info'
+
+  lookup(request: PropertyLookupRequest, hooks?: ScrapeHooks): Promise<PropertyLookupData> {
+    return scrapePropertyInfo(request, hooks)
+  }
+}
+
+// Build the providers named in PROPERTY_PROVIDERS, in order
+export function createPropertyProviders(settings: PropertyConfig = getConfig().property): PropertyProvider[] {
+  return settings.providers.map(name => {
+    switch (name) {
+      case 'assessor-files':
+        return new AssessorFileProvider(settings.assessorDataDir)
+      case 'massgis-parcels':
+        return new MassGisParcelProvider({ url: settings.massGisUrl, timeoutMs: settings.massGisTimeoutMs })
+      case 'mass-property-info':
+        return new ScraperPropertyProvider()
+    }
+  })
+}
+
+// Created on first use so environment loaded by dotenv at startup is picked up
+let providers: PropertyProvider[] | null = null
+
+export function getPropertyProviders(): PropertyProvider[] {
+  if (!providers) providers = createPropertyProviders()
+  return providers
+}
+
+// Swap the provider list, e.g. for a local stand-in
+export function setPropertyProviders(next: PropertyProvider[] | null) {
+  providers = next
+}
+
+export interface ProviderActivity {
+  lastSuccessAt?: string
+  lastFailureAt?: string
+  lastError?: string
+}
+
+// Outcomes of real lookups (not cache hits) since startup, for health checks
+const activity = new Map<string, ProviderActivity>()
+
+function recordActivity(name: string, update: ProviderActivity) {
+  activity.set(name, { ...activity.get(name), ...update })
+}
+
+export function providerActivity(): Record<string, ProviderActivity> {
+  return Object.fromEntries(activity)
+}
+
+/**
+ * Ask each provider in turn until one answers. When none does, the most useful
+ * failure is rethrown: a match error with candidates beats an outage, and an
+ * outage beats "not found". Outages surface as 502, or 504 when the last
+ * provider timed out.
+ */
+export async function lookupWithFallback(
+  request: PropertyLookupRequest,
+  hooks?: ScrapeHooks,
+  chain: PropertyProvider[] = getPropertyProviders()
+): Promise<ProviderLookupResult> {
+  let matchError: AddressMatchError | null = null
+  let lastError: unknown = null
+
+  for (const provider of chain) {
+    hooks?.onProgress?.('provider_started', provider.name)
+    // Remember how far the provider got, so failures can be counted by step
+    let lastStep: LookupStep = 'provider_started'
+    const providerHooks: ScrapeHooks = {
+      ...hooks,
+      onProgress: (step, detail) => {
+        lastStep = step
+        hooks?.onProgress?.(step, detail)
+      },
+    }
+    const started = process.hrtime.bigint()
+    const observe = (outcome: string) =>
+      propertyLookupDuration.observe({ provider: provider.name, outcome }, Number(process.hrtime.bigint() - started) / 1e9)
+
+    try {
+      const result = await provider.lookup(request, providerHooks)
+      observe(result ? 'found' : 'skipped')
+      if (result) {
+        recordActivity(provider.name, { lastSuccessAt: new Date().toISOString() })
+        return { ...result, provider: provider.name }
+      }
+    } catch (error) {
+      if (error instanceof AddressMatchError) {
+        observe('not_found')
+        // The provider answered; the address just isn't there
+        recordActivity(provider.name, { lastSuccessAt: new Date().toISOString() })
+        if (!matchError || error.candidates.length > matchError.candidates.length) matchError = error
+      } else {
+        observe('error')
+        propertyLookupFailures.inc({ provider: provider.name, step: lastStep })
+        recordActivity(provider.name, { lastFailureAt: new Date().toISOString(), lastError: (error as Error)?.message || String(error) })
+        logger.error('Property provider failed', { provider: provider.name, step: lastStep, error })
+        lastError = error
+      }
+    }
+  }
+
+  if (matchError && matchError.candidates.length > 0) throw matchError
+  if (lastError) throw upstreamError(lastError, 'property-providers', 'Property records are unavailable right now')
+  throw matchError || new AddressMatchError('town', request.city, [])
+}
@@ -0,0 +1,255 @@
+import { Page } from 'puppeteer'
+import { MatchedAddress, PropertyLookupData, PropertyLookupRequest, SelectOption } from '../types/property'
+import { AddressMatchError, MatchLevel, ScoredOption, matchOption } from './addressMatching'
+import { getBrowserPool } from './browserPool'
+import { isNoRecordsPage, parsePropertyHtml } from './propertyParser'
+import { normalizePropertyInfo } from './propertyNormalizer'
+import { getConfig } from '../config'
+import { UpstreamUnavailableError } from '../errors'
+
+// Helper function to delay execution
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// PROPERTY_LOOKUP_URL points the scraper at a stand-in form (see src/dev/fakeMassPropertyServer.ts)
+const scraperSettings = () => getConfig().property
+
+interface FormSelect {
+  selector: string
+  options: SelectOption[]
+}
+
+interface LookupForm {
+  city: FormSelect
+  street: FormSelect
+  address: FormSelect
+}
+
+export type OptionLevel = 'towns' | 'streets' | 'numbers'
+
+// Milestones reported while a lookup runs, so clients can show progress
+export type LookupStep =
+  | 'provider_started'
+  | 'form_loaded'
+  | 'town_selected'
+  | 'street_selected'
+  | 'address_selected'
+  | 'parsing'
+
+// Lets callers reuse the option lists the scraper reads along the way and follow its progress
+export interface ScrapeHooks {
+  onOptions?: (level: OptionLevel, options: SelectOption[], context: { town?: string; street?: string }) => void
+  onProgress?: (step: LookupStep, detail?: string) => void
+}
+
+// Real choices only; drops "-- Select --" style placeholders
+export const realOptions = (options: SelectOption[]) => options.filter(opt => opt.value && opt.text)
+
+// Open the lookup form and identify the town, street and address dropdowns
+async function openLookupForm(page: Page): Promise<LookupForm> {
+  // Set a realistic viewport and user agent
+  await page.setViewport({ width: 1920, height: 1080 })
+  await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36')
+  
+  const { lookupUrl, navigationTimeoutMs, formTimeoutMs } = scraperSettings()
+  await page.goto(lookupUrl, { waitUntil: 'networkidle2', timeout: navigationTimeoutMs })
+  
+  // Wait for the form to load
+  await page.waitForSelector('select', { timeout: formTimeoutMs })
+  
+  // Find the dropdowns
+  const selects = await page.$$eval('select', (selects: HTMLSelectElement[]) => {
+    return selects.map((select: HTMLSelectElement, index: number) => ({
+      index,
+      id: select.id,
+      name: select.name,
+      options: Array.from(select.options).map((opt: HTMLOptionElement) => ({
+        value: opt.value,
+        text: opt.text.trim()
+      }))
+    }))
+  })
+  
+  // Identify dropdowns by their position or content
+  let citySelect: any = null
+  let streetSelect: any = null
+  let addressSelect: any = null
+  
+  // Try to find by ID/name first
+  for (const select of selects) {
+    const idLower = select.id.toLowerCase()
+    const nameLower = select.name.toLowerCase()
+    
+    if ((idLower.includes('city') || idLower.includes('town') || nameLower.includes('city') || nameLower.includes('town')) && !citySelect) {
+      citySelect = select
+    } else if ((idLower.includes('street') || nameLower.includes('street')) && !streetSelect) {
+      streetSelect = select
+    } else if ((idLower.includes('address') || idLower.includes('number') || nameLower.includes('address') || nameLower.includes('number')) && !addressSelect) {
+      addressSelect = select
+    }
+  }
+  
+  // Fallback: assume order (city, street, address)
+  if (!citySelect && selects.length >= 1) citySelect = selects[0]
+  if (!streetSelect && selects.length >= 2) streetSelect = selects[1]
+  if (!addressSelect && selects.length >= 3) addressSelect = selects[2]
+  
+  if (!citySelect || !streetSelect || !addressSelect) {
+    throw new Error(`Could not find all required dropdowns. Found ${selects.length} selects.`)
+  }
+
+  const toFormSelect = (select: any): FormSelect => ({
+    selector: select.id ? `#${select.id}` : `select[name="${select.name}"]`,
+    options: select.options,
+  })
+
+  return {
+    city: toFormSelect(citySelect),
+    street: toFormSelect(streetSelect),
+    address: toFormSelect(addressSelect),
+  }
+}
+
+// Choose a value in one dropdown and wait for the next one to be repopulated
+async function selectAndWait(page: Page, selector: string, value: string, nextSelector: string): Promise<SelectOption[]> {
+  await page.select(selector, value)
+  
+  try {
+    await page.waitForFunction(
+      (selector: string) => {
+        const select = document.querySelector(selector) as HTMLSelectElement
+        return select && select.options.length > 1
+      },
+      { timeout: scraperSettings().resultTimeoutMs },
+      nextSelector
+    )
+  } catch (e) {
+    await delay(3000)
+  }
+  
+  const nextSelectElement = await page.$(nextSelector)
+  if (!nextSelectElement) {
+    throw new Error(`Select element not found: ${nextSelector}`)
+  }
+  
+  return page.$eval(
+    nextSelector,
+    (select: Element) => Array.from((select as HTMLSelectElement).options).map((opt: HTMLOptionElement) => ({
+      value: opt.value,
+      text: opt.text.trim()
+    }))
+  )
+}
+
+// Best confident match, or null when the input is unknown or ambiguous
+const findOption = (level: MatchLevel, options: SelectOption[], wanted: string) =>
+  matchOption(level, wanted, realOptions(options)).best || null
+
+// Best confident match, or an AddressMatchError listing the closest candidates
+function requireOption(level: MatchLevel, options: SelectOption[], wanted: string): ScoredOption {
+  const outcome = matchOption(level, wanted, realOptions(options))
+  if (!outcome.best) {
+    throw new AddressMatchError(level, wanted, outcome.candidates)
+  }
+  return outcome.best
+}
+
+// Every town offered by the lookup form
+export async function scrapeTowns(): Promise<SelectOption[]> {
+  return getBrowserPool().withPage(async (page: Page) => {
+    const form = await openLookupForm(page)
+    return realOptions(form.city.options)
+  })
+}
+
+// Streets for one town; null when the town is not in the form
+export async function scrapeStreets(town: string): Promise<SelectOption[] | null> {
+  return getBrowserPool().withPage(async (page: Page) => {
+    const form = await openLookupForm(page)
+    const townOption = findOption('town', form.city.options, town)
+    if (!townOption) return null
+    return realOptions(await selectAndWait(page, form.city.selector, townOption.value, form.street.selector))
+  })
+}
+
+// House numbers on one street; null when the town or street is not in the form
+export async function scrapeAddressNumbers(town: string, street: string): Promise<SelectOption[] | null> {
+  return getBrowserPool().withPage(async (page: Page) => {
+    const form = await openLookupForm(page)
+    const townOption = findOption('town', form.city.options, town)
+    if (!townOption) return null
+    const streetOptions = await selectAndWait(page, form.city.selector, townOption.value, form.street.selector)
+    const streetOption = findOption('street', streetOptions, street)
+    if (!streetOption) return null
+    return realOptions(await selectAndWait(page, form.street.selector, streetOption.value, form.address.selector))
+  })
+}
+
+// Walk the MassPropertyInfo.aspx form in a headless browser and parse the result page
+export async function scrapePropertyInfo(
+  { city, streetName, addressNumber }: PropertyLookupRequest,
+  hooks: ScrapeHooks = {}
+): Promise<PropertyLookupData> {
+  return getBrowserPool().withPage(async (page: Page) => {
+    const form = await openLookupForm(page)
+    hooks.onProgress?.('form_loaded')
+    hooks.onOptions?.('towns', realOptions(form.city.options), {})
+    
+    // Match each dropdown deterministically; low-confidence matches stop the lookup
+    const cityOption = requireOption('town', form.city.options, city)
+    
+    // Select city and wait for street dropdown to populate
+    const updatedStreetOptions = await selectAndWait(page, form.city.selector, cityOption.value, form.street.selector)
+    hooks.onProgress?.('town_selected', cityOption.text)
+    hooks.onOptions?.('streets', realOptions(updatedStreetOptions), { town: cityOption.text })
+    
+    const streetOption = requireOption('street', updatedStreetOptions, streetName)
+    
+    // Select street and wait for address dropdown to populate
+    const updatedAddressOptions = await selectAndWait(page, form.street.selector, streetOption.value, form.address.selector)
+    hooks.onProgress?.('street_selected', streetOption.text)
+    hooks.onOptions?.('numbers', realOptions(updatedAddressOptions), { town: cityOption.text, street: streetOption.text })
+    
+    const addressOption = requireOption('number', updatedAddressOptions, addressNumber)
+    await page.select(form.address.selector, addressOption.value)
+    hooks.onProgress?.('address_selected', addressOption.text)
+    
+    const matched: MatchedAddress = {
+      town: cityOption.text,
+      street: streetOption.text,
+      addressNumber: addressOption.text,
+      scores: {
+        town: cityOption.score,
+        street: streetOption.score,
+        addressNumber: addressOption.score
+      }
+    }
+    
+    await delay(1000)
+    
+    // Find and click the submit button
+    const submitButton = await page.$('input[type="submit"], button[type="submit"], input[value*="Get Information" i], input[value*="Submit" i]')
+    
+    if (submitButton) {
+      await submitButton.click()
+    } else {
+      await page.keyboard.press('Enter')
+    }
+    
+    // Wait for results to load
+    await delay(3000)
+    await page.waitForSelector('table, .property-info, [class*="result"], [id*="result"]', { timeout: scraperSettings().resultTimeoutMs }).catch(() => {})
+    
+    // Get the page content, parse it and convert the strings to typed values
+    hooks.onProgress?.('parsing')
+    const html = await page.content()
+    // An empty result must not be cached as "found": the site has no record, or the page changed
+    if (isNoRecordsPage(html)) throw new AddressMatchError('number', addressNumber, [])
+    const raw = parsePropertyHtml(html)
+    if (Object.keys(raw).length === 0) {
+      throw new UpstreamUnavailableError('The property records page had no recognizable fields', 'mass-property-info')
+    }
+    const propertyInfo = normalizePropertyInfo(raw)
+    
+    return { propertyInfo, matched }
+  })
+}
@@ -0,0 +1,87 @@
+import { Page } from 'puppeteer'
+import { getBrowserPool } from './browserPool'
+import { ProposalDetails, loadBrandCopy, renderProposalHtml } from './emailTemplates'
+import { estimateFinancing } from './pricing'
+import { logger } from './logger'
+import { getConfig } from '../config'
+import { ApiError, ServiceUnavailableError } from '../errors'
+import { StoredQuote } from '../types/quote'
+
+const TIME_ZONE = 'America/New_York'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { timeZone: TIME_ZONE, dateStyle: 'long' })
+
+// VHC-20250131-3F9A2C: the quote date plus the start of its ID, short enough to read over the phone
+export function proposalNumber(quote: StoredQuote): string {
+  const day = new Date(quote.createdAt).toLocaleDateString('en-CA', { timeZone: TIME_ZONE }).replace(/-/g, '')
+  return `VHC-${day}-${quote.id.replace(/-/g, '').slice(0, 6).toUpperCase()}`
+}
+
+export const proposalFileName = (quote: StoredQuote) => `${proposalNumber(quote)}.pdf`
+
+// Pricing holds for PROPOSAL_VALID_DAYS from the day the quote was submitted
+export function proposalDetails(quote: StoredQuote, now = new Date()): ProposalDetails {
+  const issued = new Date(quote.createdAt)
+  const expires = new Date(issued.getTime() + getConfig().proposal.validDays * DAY_MS)
+  return {
+    number: proposalNumber(quote),
+    issuedDate: formatDate(issued),
+    expiresDate: formatDate(expires),
+    expired: now.getTime() > expires.getTime(),
+    financing: quote.estimate && estimateFinancing(quote.estimate),
+  }
+}
+
+export function proposalHtml(quote: StoredQuote): string {
+  return renderProposalHtml({
+    quote: quote.data,
+    estimate: quote.estimate,
+    quoteId: quote.id,
+    propertyLookup: quote.propertyLookup,
+    proposal: proposalDetails(quote),
+  })
+}
+
+function footerTemplate(quote: StoredQuote): string {
+  const company = escapeHtml(loadBrandCopy().companyName)
+  return `<div style="width:100%;font-size:8px;color:#52606d;padding:0 0.6in;display:flex;justify-content:space-between;">
+    <span>${company} &middot; Proposal ${proposalNumber(quote)}</span>
+    <span>Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
+  </div>`
+}
+
+async function printPdf(page: Page, html: string, quote: StoredQuote): Promise<Buffer> {
+  const { timeoutMs } = getConfig().proposal
+  // Everything is inline, so there is nothing to wait for beyond the document itself
+  await page.setContent(html, { waitUntil: 'load', timeout: timeoutMs })
+  const pdf = await page.pdf({
+    format: 'Letter',
+    printBackground: true,
+    preferCSSPageSize: true,
+    displayHeaderFooter: true,
+    headerTemplate: '<div></div>',
+    footerTemplate: footerTemplate(quote),
+    timeout: timeoutMs,
+  })
+  return Buffer.from(pdf)
+}
+
+/**
+ * Render the branded proposal for a stored quote as a PDF, using a page from
+ * the shared Chromium pool. A busy pool is reported as PoolBusyError (503);
+ * any other browser failure as a generic 503 so clients can retry.
+ */
+export async function renderProposalPdf(quote: StoredQuote): Promise<Buffer> {
+  const html = proposalHtml(quote)
+  try {
+    return await getBrowserPool().withPage(page => printPdf(page, html, quote))
+  } catch (error) {
+    if (error instanceof ApiError) throw error
+    logger.error('Proposal PDF rendering failed', { quoteId: quote.id, error })
+    throw new ServiceUnavailableError('The proposal PDF could not be generated right now', 'SERVICE_UNAVAILABLE', 30)
+  }
+}
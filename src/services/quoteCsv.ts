@@ -0,0 +1,83 @@
+import { Writable } from 'stream'
+import { proposalNumber } from './proposal'
+import { StoredQuote } from '../types/quote'
+
+interface CsvColumn {
+  header: string
+  value: (quote: StoredQuote) => unknown
+}
+
+// One row per quote, in the order spreadsheets expect; money is in whole dollars
+const COLUMNS: CsvColumn[] = [
+  { header: 'Quote ID', value: quote => quote.id },
+  { header: 'Proposal Number', value: quote => quote.estimate && proposalNumber(quote) },
+  { header: 'Submitted At', value: quote => quote.createdAt },
+  { header: 'Status', value: quote => quote.status },
+  { header: 'Status Changed At', value: quote => quote.statusHistory[quote.statusHistory.length - 1]?.changedAt },
+  { header: 'First Name', value: quote => quote.data.firstName },
+  { header: 'Last Name', value: quote => quote.data.lastName },
+  { header: 'Email', value: quote => quote.data.email },
+  { header: 'Phone', value: quote => quote.data.phone },
+  { header: 'SMS Consent', value: quote => quote.data.smsConsent ? 'yes' : 'no' },
+  { header: 'Address', value: quote => quote.data.address },
+  { header: 'City', value: quote => quote.data.city },
+  { header: 'State', value: quote => quote.data.state },
+  { header: 'ZIP Code', value: quote => quote.data.zipCode },
+  { header: 'Property Type', value: quote => quote.data.propertyType },
+  { header: 'Ownership', value: quote => quote.data.ownership },
+  { header: 'Year Built', value: quote => quote.data.yearBuilt },
+  { header: 'Square Footage', value: quote => quote.data.squareFootage },
+  { header: 'Heating Source', value: quote => quote.data.heatingSource },
+  { header: 'Installation Timeline', value: quote => quote.data.installationTimeline },
+  { header: 'Electricity Provider', value: quote => quote.data.electricityProvider },
+  { header: 'Natural Gas Provider', value: quote => quote.data.naturalGasProvider },
+  { header: 'System Tons', value: quote => quote.estimate?.systemTons },
+  { header: 'Total Price', value: quote => quote.data.quote?.totalPrice },
+  { header: 'Rebate', value: quote => quote.estimate?.rebate },
+  { header: 'Net Cost', value: quote => quote.estimate?.netCost },
+  { header: 'Estimated Annual Savings', value: quote => quote.data.quote?.estimatedSavings },
+  { header: 'Property Lookup', value: quote => quote.propertyLookup?.status },
+  { header: 'Notes', value: quote => quote.notes.length },
+  { header: 'Additional Notes', value: quote => quote.data.additionalNotes },
+]
+
+const NUMBER = /^[+-]?\d+(\.\d+)?$/
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  let text = String(value)
+  // Stop spreadsheet apps from running submitted text as a formula; plain numbers (and phone numbers) are left alone
+  if (/^[=+\-@\t\r]/.test(text) && !NUMBER.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const csvLine = (values: unknown[]) => `${values.map(csvCell).join(',')}\r\n`
+
+// Resolves once the destination can take more, or has closed (e.g. the client went away)
+const drained = (out: Writable) => new Promise<void>(resolve => {
+  const done = () => {
+    out.off('drain', done)
+    out.off('close', done)
+    resolve()
+  }
+  out.on('drain', done)
+  out.on('close', done)
+})
+
+/**
+ * Write quotes as CSV (RFC 4180, with a byte order mark so Excel reads UTF-8).
+ * The quotes are already in memory, as the store holds every record; rows are
+ * written one at a time, waiting whenever the destination is backed up, so
+ * the whole file is never buffered for a slow client.
+ */
+export async function writeQuotesCsv(quotes: StoredQuote[], out: Writable): Promise<void> {
+  const write = async (chunk: string) => {
+    if (!out.write(chunk)) await drained(out)
+  }
+
+  await write(`\uFEFF${csvLine(COLUMNS.map(column => column.header))}`)
+  for (const quote of quotes) {
+    if (out.destroyed) return
+    await write(csvLine(COLUMNS.map(column => column.value(quote))))
+  }
+}
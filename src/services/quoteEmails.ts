@@ -0,0 +1,203 @@
+import { EmailDelivery, EmailDeliveryStatus, StoredQuote } from '../types/quote'
+import { Appointment } from '../types/appointment'
+import { AppointmentEmailDetails, QuoteEmailContext, loadBrandCopy, renderEmail } from './emailTemplates'
+import { calendarTimeZone, getTechnician } from './appointmentCalendar'
+import { renderInvite } from './icalendar'
+import { proposalDetails, proposalFileName, renderProposalPdf } from './proposal'
+import { AttachmentReference, OutboxMessage, deliverEmail, enqueueEmail, getEmailTransport, outboxEvents, registerAttachmentResolver } from './emailOutbox'
+import { getQuote, recordEmailDelivery } from './quoteStore'
+import { logger } from './logger'
+import { getConfig } from '../config'
+
+const ADMIN_KIND = 'admin-quote'
+const CUSTOMER_KIND = 'customer-quote'
+const ADDENDUM_KIND = 'admin-property-addendum'
+const APPOINTMENT_KIND = 'customer-appointment'
+const APPOINTMENT_CANCELLED_KIND = 'customer-appointment-cancelled'
+const PROPOSAL_ATTACHMENT = 'proposal-pdf'
+
+function outboxStatus(message: OutboxMessage | undefined): EmailDeliveryStatus {
+  if (!message) return 'failed'
+  if (message.status === 'sent') return 'sent'
+  if (message.status === 'dead') return 'failed'
+  return 'pending'
+}
+
+function lastError(...messages: Array<OutboxMessage | undefined>): string | undefined {
+  for (const message of messages) {
+    const failed = message?.attempts.filter(attempt => !attempt.success).pop()
+    if (failed && message?.status !== 'sent') return failed.error
+  }
+  return undefined
+}
+
+const senderAddress = () => getConfig().email.from
+const adminAddress = () => getConfig().email.adminRecipients.join(', ')
+
+// Template variables for a stored quote
+export function quoteEmailContext(quote: StoredQuote, submittedAt?: string): QuoteEmailContext {
+  return {
+    quote: quote.data,
+    estimate: quote.estimate,
+    quoteId: quote.id,
+    submittedAt,
+    priceMismatch: quote.priceMismatch,
+    clientQuote: quote.clientQuote,
+    propertyLookup: quote.propertyLookup,
+  }
+}
+
+// The PDF is rendered from the stored quote each time the email is sent, so the outbox only keeps the quote ID
+registerAttachmentResolver(PROPOSAL_ATTACHMENT, async quoteId => {
+  const quote = await getQuote(quoteId)
+  if (!quote) throw new Error(`Quote ${quoteId} no longer exists`)
+  const pdf = await renderProposalPdf(quote)
+  return { filename: proposalFileName(quote), contentType: 'application/pdf', contentBase64: pdf.toString('base64') }
+})
+
+/**
+ * Queue the admin notification and customer quote for a stored quote and make
+ * the first delivery attempt. Failed sends stay in the outbox for retry.
+ *
+ * When the PDF proposal is attached, the customer email is sent after the
+ * status is recorded instead of awaited: rendering takes seconds in Chromium
+ * and a failed render is retried by the outbox like any other failed send.
+ */
+export async function sendQuoteEmails(quote: StoredQuote): Promise<EmailDelivery> {
+  if (!getEmailTransport()) {
+    const delivery: EmailDelivery = { admin: 'skipped', customer: 'skipped', proposal: 'skipped', lastError: 'Email is turned off (EMAIL_TRANSPORT=none)' }
+    await recordEmailDelivery(quote.id, delivery)
+    return delivery
+  }
+
+  const context = quoteEmailContext(quote)
+  const attachProposal = getConfig().proposal.attachToEmail && !!quote.estimate
+  const customerContext = attachProposal ? { ...context, proposal: proposalDetails(quote) } : context
+  const proposalRefs: AttachmentReference[] | undefined = attachProposal ? [{ type: PROPOSAL_ATTACHMENT, id: quote.id }] : undefined
+  const from = senderAddress()
+
+  // The admin email is queued first so the lead is on its way before anything else
+  const adminQueued = await enqueueEmail(ADMIN_KIND, { from, to: adminAddress(), ...renderEmail(ADMIN_KIND, context) }, quote.id)
+  const customerQueued = await enqueueEmail(CUSTOMER_KIND, { from, to: quote.data.email, ...renderEmail(CUSTOMER_KIND, customerContext) }, quote.id, proposalRefs)
+
+  const [adminResult, customerResult] = await Promise.all([
+    deliverEmail(adminQueued.id),
+    attachProposal ? customerQueued : deliverEmail(customerQueued.id),
+  ])
+
+  const customerStatus = outboxStatus(customerResult)
+  const delivery: EmailDelivery = {
+    admin: outboxStatus(adminResult),
+    customer: customerStatus,
+    proposal: attachProposal ? customerStatus : 'skipped',
+    attemptedAt: new Date().toISOString(),
+    lastError: lastError(adminResult, customerResult),
+  }
+  await recordEmailDelivery(quote.id, delivery)
+
+  if (attachProposal) {
+    deliverEmail(customerQueued.id)
+      .catch(error => logger.error('Customer quote email error', { quoteId: quote.id, emailId: customerQueued.id, error }))
+  }
+  return delivery
+}
+
+/**
+ * Tell the admin about property records that arrived after the quote email went out.
+ * Returns the delivery status of the first attempt; failures are retried by the outbox.
+ */
+export async function sendPropertyAddendum(quote: StoredQuote): Promise<EmailDeliveryStatus> {
+  if (!getEmailTransport()) return 'skipped'
+
+  const submittedAt = new Date(quote.createdAt).toLocaleString('en-US', { timeZone: 'America/New_York' })
+  const message = renderEmail(ADDENDUM_KIND, quoteEmailContext(quote, submittedAt))
+  const queued = await enqueueEmail(ADDENDUM_KIND, { from: senderAddress(), to: adminAddress(), ...message }, quote.id)
+  return outboxStatus(await deliverEmail(queued.id))
+}
+
+function appointmentEmailDetails(appointment: Appointment, token?: string): AppointmentEmailDetails {
+  const timeZone = calendarTimeZone()
+  const start = new Date(appointment.start)
+  const end = new Date(appointment.end)
+  const clock = (date: Date, withZone = false) =>
+    date.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit', ...(withZone && { timeZoneName: 'short' }) })
+  const { frontendUrl } = getConfig()
+  const cancellation = appointment.history.filter(change => change.action === 'cancelled').pop()
+
+  return {
+    date: start.toLocaleDateString('en-US', { timeZone, weekday: 'long', month: 'long', day: 'numeric' }),
+    time: `${clock(start)} - ${clock(end, true)}`,
+    technician: getTechnician(appointment.technicianId)?.name || 'Our assessment team',
+    rescheduled: appointment.history.some(change => change.action === 'rescheduled'),
+    manageUrl: frontendUrl && token ? `${frontendUrl}/appointments/${appointment.id}?token=${encodeURIComponent(token)}` : undefined,
+    reason: cancellation?.reason,
+  }
+}
+
+// The .ics invite for an appointment in its current state; cancelled ones remove the event
+export function appointmentInvite(appointment: Appointment, quote: StoredQuote): string {
+  const brand = loadBrandCopy()
+  const { data } = quote
+  return renderInvite({
+    uid: `${appointment.id}@${brand.email.split('@')[1]}`,
+    sequence: appointment.sequence,
+    method: appointment.status === 'cancelled' ? 'CANCEL' : 'REQUEST',
+    start: new Date(appointment.start),
+    end: new Date(appointment.end),
+    summary: `${brand.companyName} heat pump site visit`,
+    description: `On-site assessment for your heat pump quote. Questions or changes: ${brand.phone}.`,
+    location: `${data.address}, ${data.city}, ${data.state} ${data.zipCode}`,
+    organizer: { name: brand.companyName, email: brand.email },
+    attendee: { name: `${data.firstName} ${data.lastName}`, email: data.email },
+  })
+}
+
+/**
+ * Send the customer a confirmation (booked or rescheduled) or cancellation
+ * for a site visit, with a calendar invite attached. Pass the manage token
+ * to include a reschedule link. Failures are retried by the outbox.
+ */
+export async function sendAppointmentEmail(appointment: Appointment, quote: StoredQuote, token?: string): Promise<EmailDeliveryStatus> {
+  if (!getEmailTransport()) return 'skipped'
+
+  const cancelled = appointment.status === 'cancelled'
+  const kind = cancelled ? APPOINTMENT_CANCELLED_KIND : APPOINTMENT_KIND
+  const message = renderEmail(kind, { ...quoteEmailContext(quote), appointment: appointmentEmailDetails(appointment, token) })
+  const invite = appointmentInvite(appointment, quote)
+
+  const queued = await enqueueEmail(kind, {
+    from: senderAddress(),
+    to: quote.data.email,
+    ...message,
+    attachments: [{
+      filename: cancelled ? 'site-visit-cancelled.ics' : 'site-visit.ics',
+      contentType: `text/calendar; method=${cancelled ? 'CANCEL' : 'REQUEST'}; charset=UTF-8`,
+      contentBase64: Buffer.from(invite, 'utf8').toString('base64'),
+    }],
+  }, quote.id)
+  return outboxStatus(await deliverEmail(queued.id))
+}
+
+// Keep the quote's delivery status current as the outbox retries in the background
+async function syncQuoteDelivery(message: OutboxMessage) {
+  if (!message.quoteId || (message.kind !== ADMIN_KIND && message.kind !== CUSTOMER_KIND)) return
+
+  const quote = await getQuote(message.quoteId)
+  if (!quote) return
+
+  const status = outboxStatus(message)
+  const hasProposal = message.attachmentRefs?.some(ref => ref.type === PROPOSAL_ATTACHMENT)
+  await recordEmailDelivery(quote.id, {
+    ...quote.emailDelivery,
+    ...(message.kind === ADMIN_KIND ? { admin: status } : { customer: status }),
+    ...(hasProposal && { proposal: status }),
+    attemptedAt: message.updatedAt,
+    lastError: message.status === 'sent' ? quote.emailDelivery.lastError : lastError(message),
+  })
+}
+
+for (const event of ['sent', 'dead']) {
+  outboxEvents.on(event, (message: OutboxMessage) => {
+    syncQuoteDelivery(message).catch(error => logger.error('Failed to update quote email status', { error }))
+  })
+}
@@ -0,0 +1,112 @@
+import { QuoteData, QuotePropertyLookup, StoredQuote } from '../types/quote'
+import { AddressMatchError, splitStreetAddress } from './addressMatching'
+import { lookupProperty } from './propertyLookup'
+import { listQuotes, recordPropertyLookup } from './quoteStore'
+import { sendPropertyAddendum } from './quoteEmails'
+import { emitQuoteEvent } from './webhooks'
+import { logger } from './logger'
+import { getConfig } from '../config'
+
+export interface QuotePropertyLookupStart {
+  // What to store with the new quote: "pending", or "skipped" when there is nothing to look up
+  lookup: QuotePropertyLookup
+  // Present while the lookup is running; resolves to the finished record
+  running?: Promise<QuotePropertyLookup>
+}
+
+export interface AttachedQuotePropertyLookup {
+  quote: StoredQuote
+  // Present when the lookup outlasted the wait; finish it with completeLateQuoteLookup
+  late?: Promise<QuotePropertyLookup>
+}
+
+// How long a submission waits for the lookup before answering; cache hits return well within this
+const waitMs = () => getConfig().property.quoteLookupWaitMs
+
+async function runLookup(pending: QuotePropertyLookup): Promise<QuotePropertyLookup> {
+  try {
+    const result = await lookupProperty(pending.request!)
+    return {
+      ...pending,
+      status: 'found',
+      completedAt: new Date().toISOString(),
+      provider: result.provider,
+      matched: result.matched,
+      propertyInfo: result.data,
+    }
+  } catch (error: any) {
+    if (!(error instanceof AddressMatchError)) logger.error('Quote property lookup failed', { error })
+    return {
+      ...pending,
+      status: error instanceof AddressMatchError ? 'not_found' : 'failed',
+      completedAt: new Date().toISOString(),
+      error: error?.message || String(error),
+    }
+  }
+}
+
+/**
+ * Look up the submitted address on the server rather than trusting the
+ * browser's propertyInfo. Starts the lookup without waiting for it, so the
+ * quote can be saved as "pending" while it runs.
+ */
+export function startQuotePropertyLookup(data: QuoteData): QuotePropertyLookupStart {
+  const startedAt = new Date().toISOString()
+  const street = splitStreetAddress(data.address)
+  if (!street) {
+    return {
+      lookup: { status: 'skipped', startedAt, completedAt: startedAt, error: 'Address has no house number to look up' },
+    }
+  }
+
+  const pending: QuotePropertyLookup = {
+    status: 'pending',
+    startedAt,
+    request: { city: data.city, streetName: street.streetName, addressNumber: street.addressNumber },
+  }
+  return { lookup: pending, running: runLookup(pending) }
+}
+
+/**
+ * Wait briefly for the lookup of a saved quote so cached and fast results are
+ * stored before the emails go out. Slower ones are handed back as `late`.
+ */
+export async function attachQuotePropertyLookup(quote: StoredQuote, running?: Promise<QuotePropertyLookup>): Promise<AttachedQuotePropertyLookup> {
+  if (!running) return { quote }
+
+  let timer: NodeJS.Timeout | undefined
+  const timedOut = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), waitMs())
+  })
+  const finished = await Promise.race([running, timedOut])
+  clearTimeout(timer)
+  if (!finished) return { quote, late: running }
+
+  // The lead is already saved; if storing the result fails it stays pending and is rerun at startup
+  const updated = await recordPropertyLookup(quote.id, finished)
+    .catch(error => logger.error('Failed to store property lookup', { quoteId: quote.id, error }))
+  return { quote: updated || quote }
+}
+
+/**
+ * Store a lookup that finished after the quote was saved. The admin email
+ * went out without it, so the admin gets an addendum with the result.
+ */
+export async function completeLateQuoteLookup(quoteId: string, late: Promise<QuotePropertyLookup>): Promise<void> {
+  const lookup = await late
+  const quote = await recordPropertyLookup(quoteId, lookup)
+  if (!quote) return
+  emitQuoteEvent('property.lookup_completed', quote)
+
+  const addendum = await sendPropertyAddendum(quote)
+  await recordPropertyLookup(quoteId, { ...lookup, addendum })
+}
+
+// Lookups still pending when the server stopped are rerun at startup
+export async function resumePendingQuoteLookups(): Promise<void> {
+  const pending = (await listQuotes()).filter(quote => quote.propertyLookup?.status === 'pending' && quote.propertyLookup.request)
+  for (const quote of pending) {
+    await completeLateQuoteLookup(quote.id, runLookup(quote.propertyLookup!))
+      .catch(error => logger.error('Failed to finish property lookup', { quoteId: quote.id, error }))
+  }
+}
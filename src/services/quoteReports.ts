@@ -0,0 +1,130 @@
+import { QUOTE_STATUSES, QuoteData, QuoteStatus, StoredQuote } from '../types/quote'
+import { addDays, localDay } from './appointmentCalendar'
+
+// Days and weeks follow the business's calendar time zone, not UTC, like the admin date filters
+const NOT_GIVEN = '(not given)'
+const MAX_PERIODS = 1000
+
+export type ReportInterval = 'day' | 'week'
+
+export const REPORT_DIMENSIONS = [
+  'city',
+  'zipCode',
+  'heatingSource',
+  'installationTimeline',
+  'electricityProvider',
+  'naturalGasProvider',
+] as const
+export type ReportDimension = typeof REPORT_DIMENSIONS[number]
+
+export interface Conversion {
+  // Share of all quotes that reached a site visit at some point
+  siteVisitRate: number | null
+  // Share of all quotes that were won
+  winRate: number | null
+  // Won out of those decided either way (won or lost)
+  closeRate: number | null
+}
+
+export interface QuoteTotals {
+  count: number
+  averageTotalPrice: number | null
+  averageEstimatedSavings: number | null
+  byStatus: Record<QuoteStatus, number>
+  conversion: Conversion
+}
+
+export interface PeriodCount {
+  // YYYY-MM-DD; for weeks, the Monday the week starts on
+  period: string
+  count: number
+}
+
+export interface BreakdownRow extends Omit<QuoteTotals, 'byStatus'> {
+  value: string
+  won: number
+  lost: number
+}
+
+const ratio = (part: number, whole: number) => whole === 0 ? null : Math.round(part / whole * 1000) / 1000
+
+function average(values: Array<number | undefined>): number | null {
+  const present = values.filter((value): value is number => typeof value === 'number' && !isNaN(value))
+  return present.length === 0 ? null : Math.round(present.reduce((sum, value) => sum + value, 0) / present.length)
+}
+
+const reachedSiteVisit = (quote: StoredQuote) =>
+  quote.status === 'site_visit_scheduled' || quote.status === 'won' ||
+  quote.statusHistory.some(change => change.to === 'site_visit_scheduled')
+
+// Counts, average quoted figures and conversion for a set of quotes
+export function summarizeQuotes(quotes: StoredQuote[]): QuoteTotals {
+  const byStatus = Object.fromEntries(QUOTE_STATUSES.map(status => [status, 0])) as Record<QuoteStatus, number>
+  for (const quote of quotes) byStatus[quote.status]++
+
+  return {
+    count: quotes.length,
+    averageTotalPrice: average(quotes.map(quote => quote.data.quote?.totalPrice)),
+    averageEstimatedSavings: average(quotes.map(quote => quote.data.quote?.estimatedSavings)),
+    byStatus,
+    conversion: {
+      siteVisitRate: ratio(quotes.filter(reachedSiteVisit).length, quotes.length),
+      winRate: ratio(byStatus.won, quotes.length),
+      closeRate: ratio(byStatus.won, byStatus.won + byStatus.lost),
+    },
+  }
+}
+
+// Monday of the ISO week containing day
+const weekStart = (day: string) => addDays(day, -((new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7))
+
+const periodOf = (day: string, interval: ReportInterval) => interval === 'week' ? weekStart(day) : day
+
+/**
+ * Quotes submitted per day or week, with empty periods filled in so the
+ * series can be charted as is. The range runs from `from` (or the first
+ * quote) to `to` (or the last quote), capped at MAX_PERIODS periods.
+ */
+export function countByPeriod(quotes: StoredQuote[], interval: ReportInterval, range: { from?: Date; to?: Date } = {}): PeriodCount[] {
+  const counts = new Map<string, number>()
+  for (const quote of quotes) {
+    const period = periodOf(localDay(new Date(quote.createdAt)), interval)
+    counts.set(period, (counts.get(period) || 0) + 1)
+  }
+
+  // Admin date filters are whole local days (see parseDate in routes/admin.ts), so their bounds fall on these days
+  const seen = Array.from(counts.keys()).sort()
+  const first = range.from ? periodOf(localDay(range.from), interval) : seen[0]
+  const last = range.to ? periodOf(localDay(range.to), interval) : seen[seen.length - 1]
+  if (!first || !last) return []
+
+  const step = interval === 'week' ? 7 : 1
+  const series: PeriodCount[] = []
+  for (let period = first; period <= last && series.length < MAX_PERIODS; period = addDays(period, step)) {
+    series.push({ period, count: counts.get(period) || 0 })
+  }
+  return series
+}
+
+/**
+ * Group quotes by one submitted field, most common first. Values are matched
+ * ignoring case and spacing ("Worcester" and "worcester " are one row) and
+ * shown as first submitted.
+ */
+export function breakdownBy(quotes: StoredQuote[], dimension: ReportDimension): BreakdownRow[] {
+  const groups = new Map<string, { value: string; quotes: StoredQuote[] }>()
+  for (const quote of quotes) {
+    const raw = (quote.data[dimension as keyof QuoteData] as string | undefined)?.trim()
+    const key = raw ? raw.toLowerCase().replace(/\s+/g, ' ') : ''
+    const group = groups.get(key) || { value: raw || NOT_GIVEN, quotes: [] }
+    group.quotes.push(quote)
+    groups.set(key, group)
+  }
+
+  return Array.from(groups.values())
+    .map(group => {
+      const { byStatus, ...totals } = summarizeQuotes(group.quotes)
+      return { value: group.value, ...totals, won: byStatus.won, lost: byStatus.lost }
+    })
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
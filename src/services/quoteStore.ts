@@ -0,0 +1,166 @@
+import crypto from 'crypto'
+import path from 'path'
+import { JsonStore } from './jsonStore'
+import { getConfig } from '../config'
+import { EmailDelivery, QuoteData, QuotePropertyLookup, QuoteStatus, StoredQuote } from '../types/quote'
+import { PropertyInfo } from '../types/property'
+import { upgradePropertyInfo } from './propertyNormalizer'
+
+const store = new JsonStore<StoredQuote>(path.join(getConfig().dataDir, 'quotes.json'))
+
+// Allowed lifecycle moves; lost leads can be reopened, won is final
+const STATUS_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  new: ['contacted', 'site_visit_scheduled', 'lost'],
+  contacted: ['site_visit_scheduled', 'won', 'lost'],
+  site_visit_scheduled: ['contacted', 'won', 'lost'],
+  won: [],
+  lost: ['contacted'],
+}
+
+export interface QuoteFilters {
+  city?: string
+  zipCode?: string
+  heatingSource?: string
+  installationTimeline?: string
+  electricityProvider?: string
+  naturalGasProvider?: string
+  status?: QuoteStatus
+  from?: Date
+  to?: Date
+  search?: string
+}
+
+export interface QuotePage {
+  items: StoredQuote[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+// Fill in fields added after a record was first written
+function normalize(quote: StoredQuote): StoredQuote {
+  return {
+    ...quote,
+    status: quote.status || 'new',
+    statusHistory: quote.statusHistory || [],
+    notes: quote.notes || [],
+    data: quote.data.propertyInfo
+      ? { ...quote.data, propertyInfo: upgradePropertyInfo(quote.data.propertyInfo) as PropertyInfo }
+      : quote.data,
+  }
+}
+
+// Save a new quote submission before any email is attempted
+export async function createQuote(
+  data: QuoteData,
+  extras: Pick<StoredQuote, 'estimate' | 'clientQuote' | 'priceMismatch' | 'propertyLookup'> = {}
+): Promise<StoredQuote> {
+  const now = new Date().toISOString()
+  return store.insert({
+    ...extras,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    status: 'new',
+    statusHistory: [],
+    notes: [],
+    data,
+    emailDelivery: { admin: 'pending', customer: 'pending' },
+  })
+}
+
+export async function getQuote(id: string): Promise<StoredQuote | undefined> {
+  const quote = await store.get(id)
+  return quote ? normalize(quote) : undefined
+}
+
+export async function listQuotes(): Promise<StoredQuote[]> {
+  return (await store.all()).map(normalize)
+}
+
+export async function updateQuote(
+  id: string,
+  updater: (quote: StoredQuote) => StoredQuote
+): Promise<StoredQuote | undefined> {
+  return store.update(id, quote => ({ ...updater(normalize(quote)), updatedAt: new Date().toISOString() }))
+}
+
+export async function recordEmailDelivery(id: string, delivery: EmailDelivery): Promise<StoredQuote | undefined> {
+  return updateQuote(id, quote => ({ ...quote, emailDelivery: delivery }))
+}
+
+export async function recordPropertyLookup(id: string, lookup: QuotePropertyLookup): Promise<StoredQuote | undefined> {
+  return updateQuote(id, quote => ({ ...quote, propertyLookup: lookup }))
+}
+
+const equalsIgnoreCase = (a: string | undefined, b: string) => (a || '').trim().toLowerCase() === b.trim().toLowerCase()
+
+function matchesFilters(quote: StoredQuote, filters: QuoteFilters): boolean {
+  const { data } = quote
+  const createdAt = new Date(quote.createdAt)
+
+  if (filters.city && !equalsIgnoreCase(data.city, filters.city)) return false
+  if (filters.zipCode && (data.zipCode || '').trim() !== filters.zipCode.trim()) return false
+  if (filters.heatingSource && !equalsIgnoreCase(data.heatingSource, filters.heatingSource)) return false
+  if (filters.installationTimeline && !equalsIgnoreCase(data.installationTimeline, filters.installationTimeline)) return false
+  if (filters.electricityProvider && !equalsIgnoreCase(data.electricityProvider, filters.electricityProvider)) return false
+  if (filters.naturalGasProvider && !equalsIgnoreCase(data.naturalGasProvider, filters.naturalGasProvider)) return false
+  if (filters.status && quote.status !== filters.status) return false
+  if (filters.from && createdAt < filters.from) return false
+  if (filters.to && createdAt > filters.to) return false
+
+  if (filters.search) {
+    const term = filters.search.trim().toLowerCase()
+    const haystack = [
+      data.firstName, data.lastName, data.email, data.phone,
+      data.address, data.city, data.zipCode, data.additionalNotes,
+      ...quote.notes.map(note => note.text),
+    ].join(' ').toLowerCase()
+    if (!haystack.includes(term)) return false
+  }
+
+  return true
+}
+
+export async function findQuotes(filters: QuoteFilters): Promise<StoredQuote[]> {
+  const quotes = await listQuotes()
+  return quotes
+    .filter(quote => matchesFilters(quote, filters))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+// Filter, sort newest first, then paginate
+export async function searchQuotes(filters: QuoteFilters, page: number, pageSize: number): Promise<QuotePage> {
+  const matches = await findQuotes(filters)
+  const start = (page - 1) * pageSize
+  return {
+    items: matches.slice(start, start + pageSize),
+    total: matches.length,
+    page,
+    pageSize,
+  }
+}
+
+export function canTransition(from: QuoteStatus, to: QuoteStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to)
+}
+
+export async function changeQuoteStatus(id: string, to: QuoteStatus, changedBy?: string): Promise<StoredQuote | undefined> {
+  return updateQuote(id, quote => {
+    if (!canTransition(quote.status, to)) {
+      throw new Error(`Cannot move quote from "${quote.status}" to "${to}"`)
+    }
+    return {
+      ...quote,
+      status: to,
+      statusHistory: [...quote.statusHistory, { from: quote.status, to, changedAt: new Date().toISOString(), changedBy }],
+    }
+  })
+}
+
+export async function addQuoteNote(id: string, text: string, author?: string): Promise<StoredQuote | undefined> {
+  return updateQuote(id, quote => ({
+    ...quote,
+    notes: [...quote.notes, { id: crypto.randomUUID(), text, author, createdAt: new Date().toISOString() }],
+  }))
+}
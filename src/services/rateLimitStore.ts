@@ -0,0 +1,57 @@
+export interface RateLimitHit {
+  // Requests counted in the current window, including this one
+  count: number
+  resetAt: number
+}
+
+// Where request counts live; swap in a shared store when running more than one instance
+export interface RateLimitStore {
+  readonly name: string
+  increment(key: string, windowMs: number): Promise<RateLimitHit>
+  reset(key: string): Promise<void>
+}
+
+// Fixed-window counters held in this process
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory'
+  private windows = new Map<string, RateLimitHit>()
+  private lastSweep = Date.now()
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now()
+    this.sweep(now)
+
+    const current = this.windows.get(key)
+    if (!current || current.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs }
+      this.windows.set(key, fresh)
+      return { ...fresh }
+    }
+    current.count++
+    return { ...current }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key)
+  }
+
+  // Drop expired windows now and then so one-off callers don't accumulate
+  private sweep(now: number) {
+    if (now - this.lastSweep < 60000) return
+    this.lastSweep = now
+    for (const [key, hit] of this.windows) {
+      if (hit.resetAt <= now) this.windows.delete(key)
+    }
+  }
+}
+
+let store: RateLimitStore | null = null
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) store = new MemoryRateLimitStore()
+  return store
+}
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next
+}
@@ -0,0 +1,200 @@
+import crypto from 'crypto'
+import path from 'path'
+import { JsonStore } from './jsonStore'
+import { SmsTransport, createSmsTransport } from './smsTransport'
+import { isOptedOut, recordSmsConsent } from './smsConsent'
+import { renderSmsText } from './emailTemplates'
+import { addQuoteNote, listQuotes } from './quoteStore'
+import { logger } from './logger'
+import { smsSends } from './metrics'
+import { getConfig } from '../config'
+import { StoredQuote } from '../types/quote'
+import { SmsKind, SmsMessageRecord } from '../types/sms'
+
+// Carrier-standard keywords, matched against the whole message
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'REVOKE']
+const OPT_IN_KEYWORDS = ['START', 'YES', 'UNSTOP']
+const HELP_KEYWORDS = ['HELP', 'INFO']
+
+// "No heat" situations called out in the quote's notes
+const NO_HEAT_PATTERN = /\b(no heat|without heat|heat(ing)? (is )?(out|not working|broke|broken|died)|(furnace|boiler|heater) (is )?(out|dead|died|broke|broken|not working))\b/i
+
+const store = new JsonStore<SmsMessageRecord>(path.join(getConfig().dataDir, 'sms-messages.json'))
+
+let transport: SmsTransport | null | undefined
+
+export function getSmsTransport(): SmsTransport | null {
+  if (transport === undefined) {
+    transport = createSmsTransport()
+  }
+  return transport
+}
+
+// Swap the transport, e.g. for a local stand-in
+export function setSmsTransport(next: SmsTransport | null) {
+  transport = next
+}
+
+interface OutgoingSms {
+  to: string
+  body: string
+  kind: SmsKind
+  quoteId?: string
+  // Alerts to staff numbers don't go through the customer consent check
+  requireConsent?: boolean
+}
+
+/**
+ * Send one text and log it. Texts are not retried: a confirmation that
+ * arrives hours late is worse than none, and the email covers the same ground.
+ * Message bodies go to the SMS log, never to the application log.
+ */
+export async function sendSms({ to, body, kind, quoteId, requireConsent = true }: OutgoingSms): Promise<SmsMessageRecord> {
+  const active = getSmsTransport()
+  const record: SmsMessageRecord = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    direction: 'outbound',
+    kind,
+    phone: to,
+    quoteId,
+    status: 'skipped',
+    body,
+    transport: active?.name,
+  }
+
+  if (!active) {
+    record.error = 'SMS is turned off (SMS_TRANSPORT=none)'
+  } else if (requireConsent && await isOptedOut(to)) {
+    record.error = 'Number has opted out'
+  } else {
+    try {
+      const { providerId } = await active.send({ to, body })
+      record.status = 'sent'
+      record.providerId = providerId
+    } catch (error: any) {
+      record.status = 'failed'
+      record.error = error.message
+      logger.error('SMS send failed', { kind, quoteId, transport: active.name, error })
+    }
+  }
+
+  smsSends.inc({ kind, transport: active?.name || 'none', outcome: record.status })
+  return store.insert(record)
+}
+
+// Why a new lead needs a call right away; empty for ordinary leads
+export function priorityReasons(quote: StoredQuote): string[] {
+  const reasons: string[] = []
+  if (quote.data.installationTimeline === 'asap') reasons.push('ASAP')
+  if (quote.data.additionalNotes && NO_HEAT_PATTERN.test(quote.data.additionalNotes)) reasons.push('no heat')
+  return reasons
+}
+
+/**
+ * Texts for a newly submitted quote: a confirmation to the customer if they
+ * ticked the consent box, and an alert to each on-call number for priority leads.
+ */
+export async function sendQuoteTexts(quote: StoredQuote): Promise<SmsMessageRecord[]> {
+  const sent: SmsMessageRecord[] = []
+  const context = { quote: quote.data, quoteId: quote.id }
+
+  if (quote.data.smsConsent) {
+    sent.push(await sendSms({ to: quote.data.phone, body: renderSmsText('customerQuote', context), kind: 'customer-quote', quoteId: quote.id }))
+  }
+
+  const reasons = priorityReasons(quote)
+  if (reasons.length > 0) {
+    const body = renderSmsText('oncallAlert', { ...context, reasons })
+    for (const phone of getConfig().sms.onCallNumbers) {
+      sent.push(await sendSms({ to: phone, body, kind: 'oncall-alert', quoteId: quote.id, requireConsent: false }))
+    }
+  }
+  return sent
+}
+
+// The most recent quote submitted with this number
+async function latestQuoteFor(phone: string): Promise<StoredQuote | undefined> {
+  const quotes = await listQuotes()
+  return quotes
+    .filter(quote => quote.data.phone === phone)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0]
+}
+
+export interface InboundSms {
+  from: string
+  body: string
+  providerId?: string
+}
+
+/**
+ * Handle a text from a customer. STOP/START keywords update the number's
+ * consent and HELP gets the help text; anything else is logged against the
+ * latest quote from that number and added to it as a note. Returns the reply
+ * to send back, if any.
+ */
+export async function handleInboundSms({ from, body, providerId }: InboundSms): Promise<string | undefined> {
+  const quote = await latestQuoteFor(from)
+  const keyword = body.trim().toUpperCase().replace(/[^A-Z]/g, '')
+  const transportName = getSmsTransport()?.name
+
+  await store.insert({
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    direction: 'inbound',
+    kind: 'reply',
+    phone: from,
+    quoteId: quote?.id,
+    status: 'received',
+    body,
+    transport: transportName,
+    providerId,
+  })
+
+  let reply: string | undefined
+  if (OPT_OUT_KEYWORDS.includes(keyword)) {
+    await recordSmsConsent(from, { status: 'opted_out', source: 'sms_keyword', keyword, quoteId: quote?.id })
+    logger.info('SMS opt-out received', { quoteId: quote?.id })
+    reply = renderSmsText('optOut')
+  } else if (OPT_IN_KEYWORDS.includes(keyword)) {
+    await recordSmsConsent(from, { status: 'opted_in', source: 'sms_keyword', keyword, quoteId: quote?.id })
+    logger.info('SMS opt-in received', { quoteId: quote?.id })
+    reply = renderSmsText('optIn')
+  } else if (HELP_KEYWORDS.includes(keyword)) {
+    reply = renderSmsText('help')
+  } else {
+    logger.info('SMS reply received', { quoteId: quote?.id, matched: !!quote })
+    if (quote) await addQuoteNote(quote.id, `Text from customer: ${body.trim()}`, 'sms')
+    return undefined
+  }
+
+  // The reply goes back in the webhook response rather than through the transport
+  await store.insert({
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    direction: 'outbound',
+    kind: 'keyword-reply',
+    phone: from,
+    quoteId: quote?.id,
+    status: 'sent',
+    body: reply,
+    transport: transportName,
+  })
+  return reply
+}
+
+export interface SmsMessageFilters {
+  phone?: string
+  quoteId?: string
+}
+
+// Newest first
+export async function listSmsMessages(filters: SmsMessageFilters = {}): Promise<SmsMessageRecord[]> {
+  const records = await store.all()
+  return records
+    .filter(record =>
+      (!filters.phone || record.phone === filters.phone) &&
+      (!filters.quoteId || record.quoteId === filters.quoteId)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
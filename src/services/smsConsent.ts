@@ -0,0 +1,49 @@
+import path from 'path'
+import { JsonStore } from './jsonStore'
+import { getConfig } from '../config'
+import { SmsConsent, SmsConsentChange, SmsConsentStatus } from '../types/sms'
+
+const store = new JsonStore<SmsConsent>(path.join(getConfig().dataDir, 'sms-consent.json'))
+
+// Read-then-write per number, one at a time, so a STOP can't be lost to a concurrent form submission
+let consentChain: Promise<unknown> = Promise.resolve()
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const run = consentChain.then(task, task)
+  consentChain = run.catch(() => {})
+  return run
+}
+
+export async function getSmsConsent(phone: string): Promise<SmsConsent | undefined> {
+  return store.get(phone)
+}
+
+export async function isOptedOut(phone: string): Promise<boolean> {
+  return (await store.get(phone))?.status === 'opted_out'
+}
+
+/**
+ * Record a consent change for a phone number. Ticking the box on the quote
+ * form never overrides a STOP texted from that number; only START (or an
+ * admin) can opt a number back in.
+ */
+export async function recordSmsConsent(phone: string, change: Omit<SmsConsentChange, 'at'>): Promise<SmsConsent> {
+  return serialized(async () => {
+    const now = new Date().toISOString()
+    const entry: SmsConsentChange = { ...change, at: now }
+    const current = await store.get(phone)
+    if (!current) {
+      return store.insert({ id: phone, createdAt: now, updatedAt: now, status: change.status, history: [entry] })
+    }
+
+    const keepOptOut = current.status === 'opted_out' && change.status === 'opted_in' && change.source === 'quote_form'
+    const status: SmsConsentStatus = keepOptOut ? current.status : change.status
+    const updated = await store.update(phone, record => ({
+      ...record,
+      status,
+      updatedAt: now,
+      history: keepOptOut ? record.history : [...record.history, entry],
+    }))
+    return updated!
+  })
+}
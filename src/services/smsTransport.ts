@@ -0,0 +1,108 @@
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { SmsConfig, TwilioConfig, getConfig } from '../config'
+import { logger } from './logger'
+
+export interface SmsMessage {
+  // E.164, e.g. +15085551234
+  to: string
+  body: string
+}
+
+export interface SmsSendResult {
+  providerId?: string
+}
+
+// Anything that can deliver a text; failures are reported by throwing
+export interface SmsTransport {
+  readonly name: string
+  send(message: SmsMessage): Promise<SmsSendResult>
+}
+
+export class TwilioTransport implements SmsTransport {
+  readonly name = 'twilio'
+
+  constructor(private readonly options: TwilioConfig) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const { accountSid, authToken, fromNumber, messagingServiceSid } = this.options
+    const form = new URLSearchParams({ To: message.to, Body: message.body })
+    if (messagingServiceSid) form.set('MessagingServiceSid', messagingServiceSid)
+    else if (fromNumber) form.set('From', fromNumber)
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: form.toString(),
+      signal: AbortSignal.timeout(10000),
+    })
+    const body: any = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(`Twilio rejected the message (${response.status}${body.code ? `, code ${body.code}` : ''}): ${body.message || response.statusText}`)
+    }
+    return { providerId: body.sid }
+  }
+}
+
+// Offline stand-in: writes each text to a JSON file instead of sending it
+export class FileSmsTransport implements SmsTransport {
+  readonly name = 'file'
+  private sequence = 0
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    await fs.mkdir(this.directory, { recursive: true })
+    const providerId = `file-${Date.now()}-${++this.sequence}`
+    await fs.writeFile(path.join(this.directory, `${providerId}.json`), JSON.stringify(message, null, 2), 'utf8')
+    return { providerId }
+  }
+}
+
+// Offline stand-in: logs that a text would have gone out
+export class ConsoleSmsTransport implements SmsTransport {
+  readonly name = 'console'
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    logger.info('SMS (console transport)', { to: message.to, length: message.body.length })
+    return { providerId: `console-${Date.now()}` }
+  }
+}
+
+/**
+ * Build the transport chosen by SMS_TRANSPORT (twilio, file, console).
+ * Returns null for "none"; the config module has already checked the required settings.
+ */
+export function createSmsTransport(settings: SmsConfig = getConfig().sms): SmsTransport | null {
+  switch (settings.transport) {
+    case 'twilio':
+      return settings.twilio ? new TwilioTransport(settings.twilio) : null
+    case 'file':
+      return new FileSmsTransport(settings.fileDir)
+    case 'console':
+      return new ConsoleSmsTransport()
+    case 'none':
+      return null
+  }
+}
+
+/**
+ * Twilio's request signature: HMAC-SHA1 with the auth token over the full
+ * URL followed by every POST parameter as name+value, sorted by name.
+ * The local stand-in (npm run fake:sms) signs inbound texts the same way.
+ */
+export function twilioSignature(authToken: string, url: string, params: Record<string, string>): string {
+  const payload = Object.keys(params).sort().reduce((text, key) => text + key + params[key], url)
+  return crypto.createHmac('sha1', authToken).update(payload).digest('base64')
+}
+
+export function verifyTwilioSignature(authToken: string, url: string, params: Record<string, string>, signature: string | undefined): boolean {
+  if (!signature) return false
+  const expected = Buffer.from(twilioSignature(authToken, url, params))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,113 @@
+interface CacheEntry<T> {
+  value: T
+  storedAt: number
+}
+
+export interface CacheResult<T> {
+  value: T
+  cached: boolean
+  storedAt: number
+  ageMs: number
+}
+
+/**
+ * In-memory cache with a time-to-live and request coalescing: concurrent
+ * loads for the same key share one promise. Only successful loads are cached,
+ * and a load that was running when entries were removed is not written back.
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, CacheEntry<T>>()
+  private pending = new Map<string, Promise<T>>()
+  // Bumped whenever entries are removed, so loads started before that don't store stale values
+  private generation = 0
+
+  constructor(private ttlMs: number, private readonly maxEntries = 1000) {}
+
+  setTtl(ttlMs: number) {
+    this.ttlMs = ttlMs
+  }
+
+  get(key: string): CacheEntry<T> | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    if (Date.now() - entry.storedAt > this.ttlMs) {
+      this.entries.delete(key)
+      return undefined
+    }
+    // A hit counts as use: move the entry to the newest end so it is evicted last
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  set(key: string, value: T) {
+    // Re-insert so Map order tracks recency and the least recently used entry is evicted first
+    this.entries.delete(key)
+    this.entries.set(key, { value, storedAt: Date.now() })
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  async getOrLoad(key: string, loader: () => Promise<T>): Promise<CacheResult<T>> {
+    const entry = this.get(key)
+    if (entry) {
+      return { value: entry.value, cached: true, storedAt: entry.storedAt, ageMs: Date.now() - entry.storedAt }
+    }
+
+    let load = this.pending.get(key)
+    if (!load) {
+      const generation = this.generation
+      const started: Promise<T> = loader()
+        .then(value => {
+          if (this.generation === generation) this.set(key, value)
+          return value
+        })
+        .finally(() => {
+          if (this.pending.get(key) === started) this.pending.delete(key)
+        })
+      this.pending.set(key, started)
+      load = started
+    }
+
+    const value = await load
+    const storedAt = this.entries.get(key)?.storedAt ?? Date.now()
+    return { value, cached: false, storedAt, ageMs: 0 }
+  }
+
+  delete(key: string): boolean {
+    this.generation++
+    this.pending.delete(key)
+    return this.entries.delete(key)
+  }
+
+  // Remove every entry whose key starts with the prefix; returns how many were removed
+  deleteByPrefix(prefix: string): number {
+    this.generation++
+    for (const key of Array.from(this.pending.keys())) {
+      if (key.startsWith(prefix)) this.pending.delete(key)
+    }
+    let removed = 0
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  clear(): number {
+    this.generation++
+    this.pending.clear()
+    const size = this.entries.size
+    this.entries.clear()
+    return size
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+}
@@ -0,0 +1,30 @@
+import crypto from 'crypto'
+
+export const SIGNATURE_HEADER = 'x-webhook-signature'
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp'
+
+/**
+ * Signature sent with every delivery: HMAC-SHA256 of "<timestamp>.<body>"
+ * with the endpoint's secret, hex encoded and prefixed with "sha256=".
+ * Including the timestamp lets receivers reject replayed deliveries.
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
+
+// Receiver side: check the signature and that the timestamp is within toleranceSeconds of now
+export function verifyWebhookSignature(
+  secret: string,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  body: string,
+  toleranceSeconds = 300
+): boolean {
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) return false
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > toleranceSeconds) return false
+
+  const expected = Buffer.from(signWebhook(secret, Number(timestamp), body))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
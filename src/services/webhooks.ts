@@ -0,0 +1,256 @@
+import crypto from 'crypto'
+import path from 'path'
+import { JsonStore } from './jsonStore'
+import { WEBHOOK_ADAPTERS } from './crmAdapters'
+import { signWebhook } from './webhookSignature'
+import { logger } from './logger'
+import { webhookDeliveries } from './metrics'
+import { WebhookEventType, WebhookFormat, getConfig } from '../config'
+import { QuoteStatusChange, StoredQuote } from '../types/quote'
+import { WebhookEvent, WebhookQuote } from '../types/webhook'
+
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'delivered' | 'dead'
+
+export interface WebhookAttempt {
+  attemptedAt: string
+  success: boolean
+  statusCode?: number
+  error?: string
+  durationMs: number
+}
+
+export interface WebhookDelivery {
+  id: string
+  createdAt: string
+  updatedAt: string
+  status: WebhookDeliveryStatus
+  // Endpoint name from WEBHOOK_ENDPOINTS; the URL and secret are read from config at send time
+  endpoint: string
+  format: WebhookFormat
+  eventId: string
+  eventType: WebhookEventType
+  quoteId?: string
+  // JSON body as produced by the endpoint's adapter
+  payload: object
+  attempts: WebhookAttempt[]
+  nextAttemptAt: string
+  // Set when an admin redelivers; only later failures count toward the limit
+  redeliveredAt?: string
+}
+
+const WORKER_INTERVAL_MS = 15000
+
+const store = new JsonStore<WebhookDelivery>(path.join(getConfig().dataDir, 'webhook-deliveries.json'))
+
+let workerTimer: NodeJS.Timeout | null = null
+const inFlight = new Set<string>()
+
+// 1m, 2m, 4m, ... with jitter, like the email outbox
+function backoffDelay(attemptCount: number): number {
+  const { backoffMs } = getConfig().webhooks
+  const delay = backoffMs * Math.pow(2, Math.max(0, attemptCount - 1))
+  return delay + Math.floor(Math.random() * backoffMs * 0.2)
+}
+
+export const webhookQuote = ({ id, createdAt, updatedAt, status, data, estimate, propertyLookup }: StoredQuote): WebhookQuote =>
+  ({ id, createdAt, updatedAt, status, data, estimate, propertyLookup })
+
+async function queueEvent(event: WebhookEvent): Promise<WebhookDelivery[]> {
+  const endpoints = getConfig().webhooks.endpoints.filter(endpoint => endpoint.events.includes(event.type))
+  const deliveries: WebhookDelivery[] = []
+
+  for (const endpoint of endpoints) {
+    const payload = WEBHOOK_ADAPTERS[endpoint.format](event)
+    if (!payload) continue
+    deliveries.push(await store.insert({
+      id: crypto.randomUUID(),
+      createdAt: event.createdAt,
+      updatedAt: event.createdAt,
+      status: 'pending',
+      endpoint: endpoint.name,
+      format: endpoint.format,
+      eventId: event.id,
+      eventType: event.type,
+      quoteId: event.data.quote.id,
+      payload,
+      attempts: [],
+      nextAttemptAt: event.createdAt,
+    }))
+  }
+  return deliveries
+}
+
+/**
+ * Send a quote event to every endpoint subscribed to it. Deliveries are
+ * stored first and attempted in the background, so this never delays or
+ * fails the request that caused the event.
+ */
+export function emitQuoteEvent(type: WebhookEventType, quote: StoredQuote, statusChange?: QuoteStatusChange) {
+  if (getConfig().webhooks.endpoints.length === 0) return
+
+  const event: WebhookEvent = {
+    id: crypto.randomUUID(),
+    type,
+    createdAt: new Date().toISOString(),
+    data: { quote: webhookQuote(quote), ...(statusChange && { statusChange }) },
+  }
+
+  queueEvent(event)
+    .then(deliveries => Promise.all(deliveries.map(delivery => deliverWebhook(delivery.id))))
+    .catch(error => logger.error('Failed to queue webhook event', { event: type, quoteId: quote.id, error }))
+}
+
+async function post(delivery: WebhookDelivery, url: string, secret: string): Promise<WebhookAttempt> {
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+  const started = Date.now()
+  const attemptedAt = new Date(started).toISOString()
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'valor-hvac-webhooks/1.0',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhook(secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(getConfig().webhooks.timeoutMs),
+    })
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => {})
+    return {
+      attemptedAt,
+      success: response.ok,
+      statusCode: response.status,
+      ...(!response.ok && { error: `Endpoint answered ${response.status}` }),
+      durationMs: Date.now() - started,
+    }
+  } catch (error: any) {
+    return { attemptedAt, success: false, error: error?.message || String(error), durationMs: Date.now() - started }
+  }
+}
+
+/**
+ * Make one delivery attempt and record the outcome. Anything but a 2xx is
+ * retried with exponential backoff until WEBHOOK_MAX_ATTEMPTS, after which
+ * the delivery is marked dead. Endpoints removed from config fail at once.
+ */
+export async function deliverWebhook(id: string): Promise<WebhookDelivery | undefined> {
+  if (inFlight.has(id)) return store.get(id)
+
+  // Reserve the delivery before the first await so it is never POSTed twice
+  inFlight.add(id)
+  try {
+    const current = await store.get(id)
+    if (!current || current.status !== 'pending') return current
+
+    await store.update(id, record => ({ ...record, status: 'sending' }))
+
+    const endpoint = getConfig().webhooks.endpoints.find(entry => entry.name === current.endpoint)
+    const attempt: WebhookAttempt = endpoint
+      ? await post(current, endpoint.url, endpoint.secret)
+      : { attemptedAt: new Date().toISOString(), success: false, error: `Endpoint "${current.endpoint}" is no longer configured`, durationMs: 0 }
+
+    const updated = await store.update(id, record => {
+      const attempts = [...record.attempts, attempt]
+      const failedAttempts = attempts.filter(entry =>
+        !entry.success && (!record.redeliveredAt || entry.attemptedAt >= record.redeliveredAt)
+      ).length
+      const status: WebhookDeliveryStatus = attempt.success
+        ? 'delivered'
+        : !endpoint || failedAttempts >= getConfig().webhooks.maxAttempts ? 'dead' : 'pending'
+      return {
+        ...record,
+        status,
+        attempts,
+        updatedAt: attempt.attemptedAt,
+        nextAttemptAt: status === 'pending'
+          ? new Date(Date.now() + backoffDelay(failedAttempts)).toISOString()
+          : record.nextAttemptAt,
+      }
+    })
+
+    if (updated) {
+      const fields = { endpoint: updated.endpoint, event: updated.eventType, deliveryId: updated.id, quoteId: updated.quoteId }
+      webhookDeliveries.inc({
+        endpoint: updated.endpoint,
+        event: updated.eventType,
+        outcome: updated.status === 'pending' ? 'retry' : updated.status,
+      })
+      if (updated.status === 'delivered') {
+        logger.info('Webhook delivered', { ...fields, statusCode: attempt.statusCode, durationMs: attempt.durationMs })
+      } else if (updated.status === 'dead') {
+        logger.error('Webhook delivery gave up', { ...fields, error: attempt.error })
+      } else {
+        logger.warn('Webhook delivery failed; will retry', { ...fields, retryAt: updated.nextAttemptAt, error: attempt.error })
+      }
+    }
+    return updated
+  } finally {
+    inFlight.delete(id)
+  }
+}
+
+// Deliver everything whose retry time has come
+export async function processWebhooks(): Promise<void> {
+  const now = new Date().toISOString()
+  const due = (await store.all()).filter(record =>
+    // Deliveries left in "sending" by a crash are retried too
+    (record.status === 'pending' || (record.status === 'sending' && !inFlight.has(record.id))) &&
+    record.nextAttemptAt <= now
+  )
+
+  for (const record of due) {
+    if (record.status === 'sending') {
+      await store.update(record.id, item => ({ ...item, status: 'pending' }))
+    }
+    await deliverWebhook(record.id).catch(error => logger.error('Webhook delivery error', { deliveryId: record.id, error }))
+  }
+}
+
+export function startWebhookWorker() {
+  if (workerTimer) return
+  workerTimer = setInterval(() => {
+    processWebhooks().catch(error => logger.error('Webhook worker error', { error }))
+  }, WORKER_INTERVAL_MS)
+  workerTimer.unref()
+}
+
+export function stopWebhookWorker() {
+  if (workerTimer) {
+    clearInterval(workerTimer)
+    workerTimer = null
+  }
+}
+
+export async function listWebhookDeliveries(filters: { status?: WebhookDeliveryStatus; endpoint?: string; quoteId?: string } = {}): Promise<WebhookDelivery[]> {
+  const records = await store.all()
+  return records
+    .filter(record =>
+      (!filters.status || record.status === filters.status) &&
+      (!filters.endpoint || record.endpoint === filters.endpoint) &&
+      (!filters.quoteId || record.quoteId === filters.quoteId)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+  return store.get(id)
+}
+
+// Queue a dead or delivered delivery again with the same payload and try it right away
+export async function redeliverWebhook(id: string): Promise<WebhookDelivery | undefined> {
+  const now = new Date().toISOString()
+  const requeued = await store.update(id, record => ({
+    ...record,
+    status: 'pending',
+    nextAttemptAt: now,
+    redeliveredAt: now,
+  }))
+  if (!requeued) return undefined
+  return deliverWebhook(id)
+}
@@ -0,0 +1,33 @@
+export type AppointmentStatus = 'booked' | 'cancelled'
+
+export interface AppointmentChange {
+  action: 'booked' | 'rescheduled' | 'cancelled'
+  at: string
+  by: 'customer' | 'admin'
+  // Slot start after the change; absent for cancellations
+  start?: string
+  reason?: string
+}
+
+// An on-site assessment for a quote. Times are ISO instants in UTC.
+export interface Appointment {
+  id: string
+  createdAt: string
+  updatedAt: string
+  quoteId: string
+  technicianId: string
+  status: AppointmentStatus
+  start: string
+  end: string
+  // Bumped on every change so calendar apps replace the earlier invite
+  sequence: number
+  // SHA-256 of the token that lets the customer reschedule or cancel
+  manageTokenHash: string
+  history: AppointmentChange[]
+}
+
+// A bookable start time; the technician is assigned when it is booked
+export interface AppointmentSlot {
+  start: string
+  end: string
+}
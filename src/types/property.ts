@@ -0,0 +1,87 @@
+import { PropertyType } from './quote'
+
+// Bumped whenever the PropertyInfo shape changes in a way clients need to know about
+export const PROPERTY_INFO_VERSION = 2
+
+// Strings exactly as they appear on the MassPropertyInfo result page
+export interface RawPropertyInfo {
+  owner?: string
+  ownerAddress?: string
+  buildingValue?: string
+  landValue?: string
+  otherValue?: string
+  totalValue?: string
+  assessmentYear?: string
+  lotSize?: string
+  lastSalePrice?: string
+  lastSaleDate?: string
+  useCode?: string
+  yearBuilt?: string
+}
+
+export const INSULATION_ESTIMATES = ['minimal', 'partial', 'standard', 'modern'] as const
+export type InsulationEstimate = typeof INSULATION_ESTIMATES[number]
+
+// Best guesses derived from the assessor record, for prefilling the quote form
+export interface PropertyHints {
+  propertyType?: PropertyType
+  dwellingUnits?: number
+  insulation?: InsulationEstimate
+  insulationNote?: string
+}
+
+export interface LotSize {
+  acres: number
+  squareFeet: number
+}
+
+export interface PropertyInfo {
+  version: typeof PROPERTY_INFO_VERSION
+  owner?: string
+  ownerAddress?: string
+  // Dollar amounts as plain numbers
+  buildingValue?: number
+  landValue?: number
+  otherValue?: number
+  totalValue?: number
+  // Fiscal year of the assessment, e.g. 2025 for "FY 2025"
+  assessmentYear?: number
+  lotSize?: LotSize
+  lastSalePrice?: number
+  // ISO date (YYYY-MM-DD)
+  lastSaleDate?: string
+  // Massachusetts DOR property use code, e.g. "101", and its description
+  useCode?: string
+  useLabel?: string
+  yearBuilt?: number
+  hints: PropertyHints
+  raw: RawPropertyInfo
+}
+
+export interface PropertyLookupRequest {
+  city: string
+  streetName: string
+  addressNumber: string
+}
+
+export interface SelectOption {
+  value: string
+  text: string
+}
+
+// The form options a lookup actually used, with their match scores (0-1)
+export interface MatchedAddress {
+  town: string
+  street: string
+  addressNumber: string
+  scores: {
+    town: number
+    street: number
+    addressNumber: number
+  }
+}
+
+export interface PropertyLookupData {
+  propertyInfo: PropertyInfo
+  matched: MatchedAddress
+}
@@ -0,0 +1,126 @@
+import { MatchedAddress, PropertyInfo, PropertyLookupRequest } from './property'
+
+export const PROPERTY_TYPES = ['single_family', 'multi_family', 'condo', 'townhouse', 'mobile_home', 'other'] as const
+export const OWNERSHIP_TYPES = ['own', 'rent', 'landlord'] as const
+export const HEATING_SOURCES = ['oil', 'propane', 'natural_gas', 'electric', 'wood', 'other'] as const
+export const BASEMENT_TYPES = ['finished', 'partially_finished', 'unfinished', 'crawlspace', 'slab', 'none'] as const
+export const INSTALLATION_TIMELINES = ['asap', '1_3_months', '3_6_months', '6_12_months', 'just_researching'] as const
+export const YES_NO = ['yes', 'no'] as const
+
+export type PropertyType = typeof PROPERTY_TYPES[number]
+export type OwnershipType = typeof OWNERSHIP_TYPES[number]
+export type HeatingSource = typeof HEATING_SOURCES[number]
+export type BasementType = typeof BASEMENT_TYPES[number]
+export type InstallationTimeline = typeof INSTALLATION_TIMELINES[number]
+
+export interface QuoteData {
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  // Ticked the box agreeing to texts about the quote
+  smsConsent?: boolean
+  address: string
+  city: string
+  state: string
+  zipCode: string
+  propertyInfo?: PropertyInfo
+  propertyType?: PropertyType
+  yearBuilt?: string
+  squareFootage?: string
+  floorsAboveGround?: string
+  bedrooms?: string
+  bathrooms?: string
+  hasAttic?: typeof YES_NO[number]
+  basementType?: BasementType
+  additionalNotes?: string
+  ownership?: OwnershipType
+  heatingSource?: HeatingSource
+  installationTimeline?: InstallationTimeline
+  electricityProvider?: string
+  naturalGasProvider?: string
+  quote?: {
+    totalPrice?: number
+    estimatedSavings?: number
+  }
+}
+
+// Server-computed pricing for a quote (see services/pricing.ts)
+export interface QuoteEstimate {
+  pricingVersion: string
+  designLoadBtu: number
+  systemTons: number
+  installedCost: number
+  rebate: number
+  netCost: number
+  massSaveEligible: boolean
+  currentAnnualHeatingCost: number
+  heatPumpAnnualCost: number
+  annualSavings: number
+  assumptions: string[]
+}
+
+export type EmailDeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped'
+
+export interface EmailDelivery {
+  admin: EmailDeliveryStatus
+  customer: EmailDeliveryStatus
+  // The PDF proposal attached to the customer email; it goes out with that email or not at all
+  proposal?: EmailDeliveryStatus
+  lastError?: string
+  attemptedAt?: string
+}
+
+// Sales pipeline stages: new → contacted → site visit scheduled → won/lost
+export type QuoteStatus = 'new' | 'contacted' | 'site_visit_scheduled' | 'won' | 'lost'
+
+export const QUOTE_STATUSES: QuoteStatus[] = ['new', 'contacted', 'site_visit_scheduled', 'won', 'lost']
+
+export interface QuoteNote {
+  id: string
+  text: string
+  author?: string
+  createdAt: string
+}
+
+export interface QuoteStatusChange {
+  from: QuoteStatus
+  to: QuoteStatus
+  changedAt: string
+  changedBy?: string
+}
+
+// found: verified records attached; not_found: no confident match for the address;
+// skipped: the address couldn't be split into a house number and street
+export type PropertyLookupStatus = 'pending' | 'found' | 'not_found' | 'failed' | 'skipped'
+
+// Server-side property lookup for a submitted address
+export interface QuotePropertyLookup {
+  status: PropertyLookupStatus
+  request?: PropertyLookupRequest
+  startedAt: string
+  completedAt?: string
+  provider?: string
+  matched?: MatchedAddress
+  propertyInfo?: PropertyInfo
+  error?: string
+  // Set when the lookup finished after the admin email went out and a follow-up was queued
+  addendum?: EmailDeliveryStatus
+}
+
+export interface StoredQuote {
+  id: string
+  createdAt: string
+  updatedAt: string
+  status: QuoteStatus
+  statusHistory: QuoteStatusChange[]
+  notes: QuoteNote[]
+  data: QuoteData
+  estimate?: QuoteEstimate
+  // Figures the browser submitted, kept for comparison with the server estimate
+  clientQuote?: QuoteData['quote']
+  priceMismatch?: boolean
+  // Verified by the server; data.propertyInfo is whatever the browser sent
+  propertyLookup?: QuotePropertyLookup
+  emailDelivery: EmailDelivery
+}
@@ -0,0 +1,47 @@
+export type SmsConsentStatus = 'opted_in' | 'opted_out'
+
+// quote_form: the consent box on the quote form; sms_keyword: STOP/START texted by the customer
+export type SmsConsentSource = 'quote_form' | 'sms_keyword' | 'admin'
+
+export interface SmsConsentChange {
+  status: SmsConsentStatus
+  source: SmsConsentSource
+  at: string
+  quoteId?: string
+  // The keyword texted, for sms_keyword changes
+  keyword?: string
+}
+
+// Texting consent for one phone number; the ID is the E.164 number
+export interface SmsConsent {
+  id: string
+  createdAt: string
+  updatedAt: string
+  status: SmsConsentStatus
+  history: SmsConsentChange[]
+}
+
+export type SmsDirection = 'outbound' | 'inbound'
+
+// customer-quote: confirmation to the customer; oncall-alert: priority lead for the on-call tech;
+// keyword-reply: answer to STOP/START/HELP; reply: anything else the customer texted
+export type SmsKind = 'customer-quote' | 'oncall-alert' | 'keyword-reply' | 'reply'
+
+// skipped: not sent because the number opted out or never consented
+export type SmsMessageStatus = 'sent' | 'failed' | 'skipped' | 'received'
+
+export interface SmsMessageRecord {
+  id: string
+  createdAt: string
+  direction: SmsDirection
+  kind: SmsKind
+  // The customer's or technician's number in E.164
+  phone: string
+  quoteId?: string
+  status: SmsMessageStatus
+  body: string
+  transport?: string
+  // Provider message ID (Twilio MessageSid)
+  providerId?: string
+  error?: string
+}
@@ -0,0 +1,19 @@
+import { WebhookEventType } from '../config'
+import { QuoteStatusChange, StoredQuote } from './quote'
+
+// What integrations see of a quote; email delivery, notes and price checks stay internal
+export type WebhookQuote = Pick<StoredQuote, 'id' | 'createdAt' | 'updatedAt' | 'status' | 'data' | 'estimate' | 'propertyLookup'>
+
+export interface WebhookEventData {
+  quote: WebhookQuote
+  // Only on quote.status_changed
+  statusChange?: QuoteStatusChange
+}
+
+// Body of a "raw" delivery; CRM formats are built from it
+export interface WebhookEvent {
+  id: string
+  type: WebhookEventType
+  createdAt: string
+  data: WebhookEventData
+}
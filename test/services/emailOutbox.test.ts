@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { afterAll, describe, expect, it, vi } from 'vitest'
+import { EmailMessage, EmailTransport } from '../../src/services/emailTransport'
+import { deliverEmail, enqueueEmail, registerAttachmentResolver, setEmailTransport } from '../../src/services/emailOutbox'
+
+// Runs before the imports: the outbox opens its store under DATA_DIR when first loaded
+const dataDir = vi.hoisted(() => {
+  const dir = require('fs').mkdtempSync(require('path').join(require('os').tmpdir(), 'email-outbox-'))
+  process.env.DATA_DIR = dir
+  return dir as string
+})
+
+const sent: EmailMessage[] = []
+const transport: EmailTransport = {
+  name: 'test',
+  send: async message => {
+    sent.push(message)
+    return {}
+  },
+}
+
+afterAll(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+describe('email outbox', () => {
+  it('builds referenced attachments at send time and retries when that fails', async () => {
+    setEmailTransport(transport)
+    let renders = 0
+    registerAttachmentResolver('test-pdf', async id => {
+      renders++
+      if (renders === 1) throw new Error('Chromium is not available')
+      return { filename: `${id}.pdf`, contentType: 'application/pdf', contentBase64: 'JVBERi0=' }
+    })
+
+    const queued = await enqueueEmail('customer-quote', { from: 'a@example.com', to: 'b@example.com', subject: 'Quote', text: 'Hi' }, 'quote-1', [{ type: 'test-pdf', id: 'quote-1' }])
+
+    const failed = await deliverEmail(queued.id)
+    expect(failed?.status).toBe('pending')
+    expect(failed?.attempts[0]).toMatchObject({ success: false, error: 'Chromium is not available' })
+    expect(sent).toHaveLength(0)
+
+    // Retry right away instead of waiting for the backoff
+    const retried = await deliverEmail(queued.id)
+    expect(retried?.status).toBe('sent')
+    expect(sent[0].attachments).toEqual([{ filename: 'quote-1.pdf', contentType: 'application/pdf', contentBase64: 'JVBERi0=' }])
+
+    // Only the reference is stored, never the rendered file
+    const stored = await fs.readFile(path.join(dataDir, 'outbox.json'), 'utf8')
+    expect(stored).not.toContain('JVBERi0=')
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { EMAIL_TEMPLATES, QuoteEmailContext, renderEmail, renderProposalHtml } from '../../src/services/emailTemplates'
+import { sampleQuoteEmailContext } from '../../src/services/emailSamples'
+
+// Fixed so the admin templates don't print the time the test ran
+const context = (): QuoteEmailContext => ({ ...sampleQuoteEmailContext(), submittedAt: '1/15/2025, 9:02:11 AM' })
+
+describe('email templates', () => {
+  it.each(EMAIL_TEMPLATES)('renders %s', name => {
+    const email = renderEmail(name, context())
+    expect(email.subject).not.toBe('')
+    expect(email.subject).toMatchSnapshot('subject')
+    expect(email.html).toMatchSnapshot('html')
+    expect(email.text).toMatchSnapshot('text')
+  })
+
+  it('renders the printable proposal', () => {
+    const sample = context()
+    expect(renderProposalHtml({ ...sample, proposal: sample.proposal! })).toMatchSnapshot()
+  })
+
+  it.each(EMAIL_TEMPLATES)('escapes submitted fields in the %s HTML', name => {
+    const sample = context()
+    const email = renderEmail(name, {
+      ...sample,
+      quote: {
+        ...sample.quote,
+        firstName: '<script>alert(1)</script>',
+        lastName: 'O\'Brien & "Sons"',
+        address: '42 <b>Maple</b> Street',
+        additionalNotes: '<img src=x onerror=alert(1)>',
+      },
+    })
+
+    expect(email.html).not.toContain('<script>')
+    expect(email.html).not.toContain('<b>Maple</b>')
+    expect(email.html).not.toContain('<img src=x')
+    expect(email.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+  })
+
+  it('escapes every submitted field the admin email shows', () => {
+    const sample = context()
+    const email = renderEmail('admin-quote', {
+      ...sample,
+      quote: {
+        ...sample.quote,
+        firstName: '<script>alert(1)</script>',
+        lastName: 'O\'Brien & "Sons"',
+        address: '42 <b>Maple</b> Street',
+        additionalNotes: '<img src=x onerror=alert(1)>',
+      },
+    })
+
+    expect(email.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(email.html).toContain('42 &lt;b&gt;Maple&lt;/b&gt; Street')
+    expect(email.html).toContain('O&#x27;Brien &amp; &quot;Sons&quot;')
+    expect(email.html).toContain('&lt;img src&#x3D;x onerror&#x3D;alert(1)&gt;')
+  })
+
+  it('leaves the plain-text version unescaped', () => {
+    const sample = context()
+    const email = renderEmail('customer-quote', { ...sample, quote: { ...sample.quote, firstName: 'Ana & <Lee>' } })
+
+    expect(email.text).toContain('Hello Ana & <Lee>,')
+    expect(email.html).toContain('Hello Ana &amp; &lt;Lee&gt;,')
+  })
+})
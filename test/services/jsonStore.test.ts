@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { JsonStore } from '../../src/services/jsonStore'
+import { ConfigError } from '../../src/config'
+
+interface Item {
+  id: string
+  count: number
+}
+
+let dir: string
+let filePath: string
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'json-store-'))
+  filePath = path.join(dir, 'items.json')
+})
+
+afterEach(async () => {
+  vi.restoreAllMocks()
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe('JsonStore', () => {
+  it('reports a corrupt file as a ConfigError and loads it once repaired', async () => {
+    await fs.writeFile(filePath, '[{"id": "a", "count": 1', 'utf8')
+    const store = new JsonStore<Item>(filePath)
+
+    await expect(store.all()).rejects.toBeInstanceOf(ConfigError)
+
+    await fs.writeFile(filePath, JSON.stringify([{ id: 'a', count: 1 }]), 'utf8')
+    expect(await store.all()).toEqual([{ id: 'a', count: 1 }])
+  })
+
+  it('keeps memory unchanged when a write fails', async () => {
+    const store = new JsonStore<Item>(filePath)
+    await store.insert({ id: 'a', count: 1 })
+
+    vi.spyOn(fs, 'rename').mockRejectedValueOnce(new Error('disk full'))
+    await expect(store.update('a', item => ({ ...item, count: 2 }))).rejects.toThrow('disk full')
+    await expect(store.insert({ id: 'b', count: 1 })).resolves.toEqual({ id: 'b', count: 1 })
+
+    expect(await store.all()).toEqual([{ id: 'a', count: 1 }, { id: 'b', count: 1 }])
+    expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual([{ id: 'a', count: 1 }, { id: 'b', count: 1 }])
+  })
+
+  it('applies concurrent updates one after another', async () => {
+    const store = new JsonStore<Item>(filePath)
+    await store.insert({ id: 'a', count: 0 })
+
+    await Promise.all(Array.from({ length: 5 }, () => store.update('a', item => ({ ...item, count: item.count + 1 }))))
+    expect(await store.get('a')).toEqual({ id: 'a', count: 5 })
+  })
+})
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { MassGisParcelProvider } from '../../src/services/massGisProvider'
+
+const record = (addressNumber: string, street: string) => ({
+  CITY: 'WORCESTER',
+  FULL_STR: street,
+  ADDR_NUM: addressNumber,
+  OWNER1: `OWNER OF ${addressNumber} ${street}`,
+  TOTAL_VAL: 394700,
+})
+
+// Answers the parcel query with the given rows and keeps the WHERE clauses it was sent
+function stubLayer(rows: Array<Record<string, unknown>>, exceededTransferLimit = false) {
+  const queries: string[] = []
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    queries.push(new URL(url).searchParams.get('where') || '')
+    return new Response(JSON.stringify({ features: rows.map(attributes => ({ attributes })), exceededTransferLimit }))
+  }))
+  return queries
+}
+
+const provider = new MassGisParcelProvider({ url: 'https://gis.example.test/FeatureServer/0', timeoutMs: 1000 })
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('MassGisParcelProvider', () => {
+  it('queries one street and the exact house number', async () => {
+    const queries = stubLayer([record('12', 'MAIN ST')])
+    await provider.lookup({ city: 'Worcester', streetName: 'Main Street', addressNumber: '12' })
+
+    expect(queries[0]).toContain("UPPER(FULL_STR) LIKE '%MAIN%'")
+    expect(queries[0]).toContain("ADDR_NUM IN ('12')")
+    expect(queries[0]).not.toContain("LIKE '12%'")
+  })
+
+  it('asks for both ends of a hyphenated number', async () => {
+    const queries = stubLayer([record('100-102', 'ELM ST')])
+    const result = await provider.lookup({ city: 'Worcester', streetName: 'Elm St', addressNumber: '100-102' })
+
+    expect(queries[0]).toContain("ADDR_NUM IN ('100-102', '100', '102')")
+    expect(result?.matched.addressNumber).toBe('100-102')
+  })
+
+  it('matches the parcel on the requested street', async () => {
+    stubLayer([record('12', 'MAIN AVE'), record('12', 'MAIN ST')])
+    const result = await provider.lookup({ city: 'Worcester', streetName: 'Main Street', addressNumber: '12' })
+
+    expect(result?.matched).toMatchObject({ street: 'MAIN ST', addressNumber: '12' })
+    expect(result?.propertyInfo.owner).toBe('OWNER OF 12 MAIN ST')
+  })
+
+  it('reports a truncated result as ambiguous instead of choosing from it', async () => {
+    stubLayer([record('12', 'MAIN ST')], true)
+
+    await expect(provider.lookup({ city: 'Worcester', streetName: 'Main Street', addressNumber: '12' }))
+      .rejects.toMatchObject({ code: 'ADDRESS_AMBIGUOUS' })
+  })
+})
@@ -0,0 +1,82 @@
+import fs from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { isNoRecordsPage, parsePropertyHtml } from '../../src/services/propertyParser'
+
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, '..', '..', 'fixtures', 'mass-property', name), 'utf8')
+
+describe('parsePropertyHtml', () => {
+  it('reads every field from a single-family result page', () => {
+    expect(parsePropertyHtml(fixture('single-family.html'))).toEqual({
+      owner: 'SAMPLE JORDAN',
+      ownerAddress: '42 MAPLE ST, WORCESTER MA 01609',
+      buildingValue: '$298,400',
+      landValue: '$96,300',
+      otherValue: '$0',
+      totalValue: '$394,700',
+      assessmentYear: 'FY 2025',
+      lotSize: '0.18 Acres',
+      lastSalePrice: '$255,000',
+      lastSaleDate: '20170614',
+      useCode: '101',
+      yearBuilt: '1928',
+    })
+  })
+
+  it('reads a condo page, which has no land or other value of its own', () => {
+    expect(parsePropertyHtml(fixture('condo.html'))).toEqual({
+      owner: 'RIVERA ANA',
+      ownerAddress: '15 HARBOR WAY UNIT 3B, QUINCY MA 02169',
+      buildingValue: '$412,300',
+      landValue: '$0',
+      totalValue: '$412,300',
+      assessmentYear: 'FY 2025',
+      lotSize: '0 Acres',
+      lastSalePrice: '$389,000',
+      lastSaleDate: '20190815',
+      useCode: '102',
+      yearBuilt: '1987',
+    })
+  })
+
+  it('reads a multi-family page with a PO box owner address', () => {
+    expect(parsePropertyHtml(fixture('multi-family.html'))).toEqual({
+      owner: 'ELM STREET REALTY TRUST',
+      ownerAddress: 'PO BOX 118, LOWELL MA 01853',
+      buildingValue: '$521,900',
+      landValue: '$142,600',
+      otherValue: '$4,200',
+      totalValue: '$668,700',
+      assessmentYear: 'FY 2024',
+      lotSize: '0.25 Acres',
+      lastSalePrice: '$610,000',
+      lastSaleDate: '20210302',
+      useCode: '105',
+      yearBuilt: '1910',
+    })
+  })
+
+  it('leaves fields that are missing from the page undefined', () => {
+    expect(parsePropertyHtml(fixture('missing-fields.html'))).toEqual({
+      owner: 'NGUYEN THANH',
+      totalValue: '$287,100',
+      assessmentYear: 'FY 2025',
+      useCode: '101',
+    })
+  })
+
+  it('returns nothing from the error page', () => {
+    expect(parsePropertyHtml(fixture('error.html'))).toEqual({})
+  })
+})
+
+describe('isNoRecordsPage', () => {
+  it('recognizes the error page', () => {
+    expect(isNoRecordsPage(fixture('error.html'))).toBe(true)
+  })
+
+  it.each(['single-family.html', 'condo.html', 'multi-family.html', 'missing-fields.html'])('does not flag %s', name => {
+    expect(isNoRecordsPage(fixture(name))).toBe(false)
+  })
+})
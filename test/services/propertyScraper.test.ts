@@ -0,0 +1,103 @@
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { createFakeMassPropertyApp } from '../../src/dev/fakeMassPropertyServer'
+import { getBrowserPool, shutdownBrowserPool } from '../../src/services/browserPool'
+import { scrapePropertyInfo, scrapeTowns } from '../../src/services/propertyScraper'
+import { AddressMatchError } from '../../src/services/addressMatching'
+import { isNoRecordsPage, parsePropertyHtml } from '../../src/services/propertyParser'
+import { loadConfig, setConfig } from '../../src/config'
+
+// Walks the fake MassPropertyInfo form in headless Chromium; skipped where Chromium can't start
+let server: Server
+let baseUrl: string
+let browserError: string | undefined
+
+beforeAll(async () => {
+  process.env.FAKE_PROPERTY_LATENCY_MS = '0'
+  server = await new Promise<Server>(resolve => {
+    const listening = createFakeMassPropertyApp().listen(0, '127.0.0.1', () => resolve(listening))
+  })
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  setConfig(loadConfig({ ...process.env, PROPERTY_LOOKUP_URL: `${baseUrl}/MassPropertyInfo.aspx` }))
+
+  try {
+    await getBrowserPool().ensureBrowser()
+  } catch (error: any) {
+    browserError = String(error?.message || error).split('\n')[0]
+  }
+}, 60000)
+
+afterAll(async () => {
+  await shutdownBrowserPool()
+  await new Promise(resolve => server?.close(resolve))
+  setConfig(null)
+})
+
+// The same requests the form's scripts make, without a browser
+describe('fake MassPropertyInfo form', () => {
+  const getJson = async (url: string) => (await fetch(`${baseUrl}${url}`)).json()
+
+  it('cascades from town to street to house number', async () => {
+    const form = await (await fetch(`${baseUrl}/MassPropertyInfo.aspx`)).text()
+    const worcester = form.match(/<option value="(\d+)">WORCESTER<\/option>/)?.[1]
+    expect(worcester).toBeDefined()
+
+    const streets = await getJson(`/options/streets?town=${worcester}`)
+    expect(streets.map((street: { text: string }) => street.text)).toEqual(['MAIN AVE', 'MAIN ST', 'MAPLE ST'])
+
+    const numbers = await getJson(`/options/numbers?town=${worcester}&street=${encodeURIComponent('MAPLE ST')}`)
+    expect(numbers.map((number: { text: string }) => number.text)).toEqual(['42', '44'])
+  })
+
+  it('answers a submission with the fixture for that address', async () => {
+    const form = await (await fetch(`${baseUrl}/MassPropertyInfo.aspx`)).text()
+    const lowell = form.match(/<option value="(\d+)">LOWELL<\/option>/)?.[1]
+    const response = await fetch(`${baseUrl}/MassPropertyInfo.aspx`, {
+      method: 'POST',
+      body: new URLSearchParams({ ddlCity: lowell!, ddlStreet: 'ELM ST', ddlAddress: '100-102' }),
+    })
+
+    expect(parsePropertyHtml(await response.text())).toMatchObject({ owner: 'ELM STREET REALTY TRUST', useCode: '105' })
+  })
+
+  it('answers an unknown address with the error page', async () => {
+    const response = await fetch(`${baseUrl}/MassPropertyInfo.aspx`, {
+      method: 'POST',
+      body: new URLSearchParams({ ddlCity: '999', ddlStreet: 'NOWHERE RD', ddlAddress: '1' }),
+    })
+
+    expect(isNoRecordsPage(await response.text())).toBe(true)
+  })
+})
+
+describe('property scraper against the fake form', () => {
+  it('lists the towns in the form', async ({ skip }) => {
+    if (browserError) skip(`Chromium is not available: ${browserError}`)
+
+    const towns = await scrapeTowns()
+    expect(towns.map(town => town.text)).toEqual(['LOWELL', 'QUINCY', 'WORCESTER'])
+  }, 30000)
+
+  it('matches the address and parses the result page', async ({ skip }) => {
+    if (browserError) skip(`Chromium is not available: ${browserError}`)
+
+    const result = await scrapePropertyInfo({ city: 'Worcester', streetName: 'Maple Street', addressNumber: '42' })
+    expect(result.matched).toMatchObject({ town: 'WORCESTER', street: 'MAPLE ST', addressNumber: '42' })
+    expect(result.propertyInfo).toMatchObject({ owner: 'SAMPLE JORDAN', totalValue: 394700, yearBuilt: 1928 })
+  }, 30000)
+
+  it('reports an address with no records as not found rather than an empty result', async ({ skip }) => {
+    if (browserError) skip(`Chromium is not available: ${browserError}`)
+
+    await expect(scrapePropertyInfo({ city: 'Worcester', streetName: 'Main Avenue', addressNumber: '3' }))
+      .rejects.toMatchObject({ code: 'ADDRESS_NOT_FOUND', level: 'number' })
+  }, 30000)
+
+  it('rejects a street the form does not have', async ({ skip }) => {
+    if (browserError) skip(`Chromium is not available: ${browserError}`)
+
+    await expect(scrapePropertyInfo({ city: 'Worcester', streetName: 'Nowhere Road', addressNumber: '1' }))
+      .rejects.toBeInstanceOf(AddressMatchError)
+  }, 30000)
+})
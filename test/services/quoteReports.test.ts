@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { countByPeriod } from '../../src/services/quoteReports'
+import { sampleQuoteData } from '../../src/services/emailSamples'
+import { zonedTime } from '../../src/services/appointmentCalendar'
+import { StoredQuote } from '../../src/types/quote'
+
+const quoteAt = (createdAt: string): StoredQuote => ({
+  id: createdAt,
+  createdAt,
+  updatedAt: createdAt,
+  status: 'new',
+  statusHistory: [],
+  notes: [],
+  data: sampleQuoteData,
+  emailDelivery: { admin: 'sent', customer: 'sent' },
+})
+
+describe('countByPeriod', () => {
+  it('buckets evening quotes on their Eastern-time day', () => {
+    // 21:30 on January 14 in Massachusetts
+    expect(countByPeriod([quoteAt('2025-01-15T02:30:00.000Z')], 'day')).toEqual([{ period: '2025-01-14', count: 1 }])
+  })
+
+  it('keeps a whole-day range to exactly those days', () => {
+    const range = { from: zonedTime('2025-01-14', '00:00'), to: new Date(zonedTime('2025-01-16', '00:00').getTime() - 1) }
+    const quotes = [quoteAt('2025-01-14T05:00:00.000Z'), quoteAt('2025-01-16T04:59:00.000Z')]
+
+    expect(countByPeriod(quotes, 'day', range)).toEqual([
+      { period: '2025-01-14', count: 1 },
+      { period: '2025-01-15', count: 1 },
+    ])
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { TtlCache } from '../../src/services/ttlCache'
+
+describe('TtlCache', () => {
+  it('evicts the least recently used entry', () => {
+    const cache = new TtlCache<number>(60000, 2)
+    cache.set('a', 1)
+    cache.set('b', 2)
+    cache.get('a')
+    cache.set('c', 3)
+
+    expect(cache.get('a')?.value).toBe(1)
+    expect(cache.get('b')).toBeUndefined()
+  })
+
+  it('does not store a load that was running when the entry was invalidated', async () => {
+    const cache = new TtlCache<string>(60000)
+    let finish: (value: string) => void = () => {}
+    const loading = cache.getOrLoad('WORCESTER|MAIN ST|12', () => new Promise(resolve => { finish = resolve }))
+
+    cache.deleteByPrefix('WORCESTER|')
+    finish('stale')
+
+    expect((await loading).value).toBe('stale')
+    expect(cache.get('WORCESTER|MAIN ST|12')).toBeUndefined()
+  })
+
+  it('starts a fresh load after invalidation instead of joining the old one', async () => {
+    const cache = new TtlCache<string>(60000)
+    let finishOld: (value: string) => void = () => {}
+    const old = cache.getOrLoad('key', () => new Promise(resolve => { finishOld = resolve }))
+
+    cache.delete('key')
+    const fresh = await cache.getOrLoad('key', async () => 'fresh')
+    finishOld('stale')
+    await old
+
+    expect(fresh.value).toBe('fresh')
+    expect(cache.get('key')?.value).toBe('fresh')
+  })
+})